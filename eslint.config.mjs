@@ -17,6 +17,7 @@ const eslintConfig = [
       ".next/**",
       "out/**",
       "build/**",
+      ".bench/**",
       "next-env.d.ts",
     ],
   },
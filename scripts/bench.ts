@@ -0,0 +1,187 @@
+/**
+ * File: scripts/bench.ts
+ * Module: Tools – AI Benchmark CLI
+ * Brief: `npm run bench` entry point. Plays seeded games for every chosen strategy, board size
+ *        and mine density (see src/_util/ai/benchmark.ts), prints a table and writes JSON.
+ *
+ * Inputs (command line, all optional):
+ *   --games N               games per strategy × size × density (default 1000)
+ *   --strategies a,b        registered strategy names (default: all)
+ *   --sizes RxC,…           board sizes (default 9x9,16x16,16x30)
+ *   --densities d,…         mines per cell (default 0.12,0.16,0.2)
+ *   --seed N                base seed (default 1)
+ *   --json FILE             where to write the JSON results (default .bench/results.json)
+ *   --help                  print the usage and exit
+ * Outputs:
+ *   - A results table on stdout, progress on stderr, the JSON file.
+ *
+ * Side Effects:
+ *   - Silences console.log while games run (the bots log every move); writes the JSON file.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-19
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+
+import type { BenchmarkRow } from "../src/_util/ai/benchmark";
+import type { AiStrategy } from "../src/_util/ai/strategy";
+import { benchmarkConfig, runCase } from "../src/_util/ai/benchmark";
+import { AI_STRATEGIES } from "../src/_util/ai/registry";
+
+type Options = {
+  games: number;
+  strategies: AiStrategy[];
+  sizes: [number, number][];
+  densities: number[];
+  seed: number;
+  json: string;
+};
+
+const USAGE = "Usage: npm run bench -- [--games N] [--strategies easy,hard] [--sizes 9x9,16x30] [--densities 0.12,0.2] [--seed N] [--json FILE] [--help]";
+
+/**
+ * Function: parseArgs(argv)
+ * Purpose: Options from the command line, or null when `--help` asks for the usage; throws an
+ *          Error naming the bad argument.
+ */
+function parseArgs(argv: string[]): Options | null {
+  if (argv.includes("--help")) return null;
+
+  const options: Options = {
+    games: 1000,
+    strategies: [...AI_STRATEGIES],
+    sizes: [[9, 9], [16, 16], [16, 30]],
+    densities: [0.12, 0.16, 0.2],
+    seed: 1,
+    json: ".bench/results.json",
+  };
+  const list = (value: string) => value.split(",").map(s => s.trim()).filter(Boolean);
+  const whole = (value: string, name: string, min: number) => {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < min) throw new Error(`${name} must be an integer ≥ ${min}, got "${value}"`);
+    return n;
+  };
+
+  for (let k = 0; k < argv.length; k += 2) {
+    const [flag, value] = [argv[k], argv[k + 1]];
+    if (value === undefined) throw new Error(`Missing value for ${flag}`);
+
+    switch (flag) {
+      case "--games":
+        options.games = whole(value, "--games", 1);
+        break;
+      case "--strategies":
+        options.strategies = list(value).map(name => {
+          const strategy = AI_STRATEGIES.find(s => s.name === name);
+          if (!strategy) throw new Error(`Unknown strategy "${name}" (have: ${AI_STRATEGIES.map(s => s.name).join(", ")})`);
+          return strategy;
+        });
+        break;
+      case "--sizes":
+        options.sizes = list(value).map(size => {
+          const [rows, cols, extra] = size.split("x");
+          if (cols === undefined || extra !== undefined) throw new Error(`Board size must look like 16x30, got "${size}"`);
+          const dims: [number, number] = [whole(rows, "Rows", 2), whole(cols, "Columns", 2)];
+          benchmarkConfig(...dims, 0, 0);   // throws when the board has no room for mines
+          return dims;
+        });
+        break;
+      case "--densities":
+        options.densities = list(value).map(d => {
+          const density = Number(d);
+          if (!(density > 0 && density < 1)) throw new Error(`Density must be between 0 and 1, got "${d}"`);
+          return density;
+        });
+        break;
+      case "--seed":
+        options.seed = whole(value, "--seed", 0);
+        break;
+      case "--json":
+        options.json = value;
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Function: formatTable(rows)
+ * Purpose: The results as an aligned text table.
+ */
+function formatTable(rows: BenchmarkRow[]): string {
+  const header = ["strategy", "board", "mines", "games", "win %", "revealed", "revealed %", "guesses", "moves", "ms/move", "invalid", "errors"];
+  const body = rows.map(row => [
+    row.strategy,
+    `${row.rows}x${row.cols}`,
+    String(row.mines),
+    String(row.games),
+    (row.winRate * 100).toFixed(1),
+    row.avgRevealed.toFixed(1),
+    (row.revealedShare * 100).toFixed(1),
+    row.avgGuesses.toFixed(2),
+    row.avgMoves.toFixed(1),
+    row.msPerMove.toFixed(3),
+    String(row.invalidMoves),
+    String(row.engineErrors),
+  ]);
+  const widths = header.map((h, k) => Math.max(h.length, ...body.map(cells => cells[k].length)));
+  // Text columns align left, numbers right.
+  const line = (cells: string[]) =>
+    cells.map((cell, k) => k < 2 ? cell.padEnd(widths[k]) : cell.padStart(widths[k])).join("  ");
+  return [line(header), widths.map(w => "-".repeat(w)).join("  "), ...body.map(line)].join("\n");
+}
+
+function main() {
+  let options: Options | null;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error((err as Error).message);
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return;
+  }
+
+  const log = console.log;
+  const rows: BenchmarkRow[] = [];
+  const started = Date.now();
+  console.log = () => {};
+  try {
+    for (const strategy of options.strategies) {
+      for (const [r, c] of options.sizes) {
+        for (const density of options.densities) {
+          const row = runCase({ strategy, rows: r, cols: c, density }, options.games, options.seed);
+          rows.push(row);
+          process.stderr.write(`${strategy.name} ${r}x${c} (${row.mines} mines): ${(row.winRate * 100).toFixed(1)}% won\n`);
+        }
+      }
+    }
+  } finally {
+    console.log = log;
+  }
+
+  console.log(formatTable(rows));
+
+  mkdirSync(dirname(options.json), { recursive: true });
+  const { strategies, ...settings } = options;
+  writeFileSync(options.json, JSON.stringify({
+    ...settings,
+    strategies: strategies.map(s => s.name),
+    seconds: (Date.now() - started) / 1000,
+    results: rows,
+  }, null, 2) + "\n");
+  console.log(`\nJSON written to ${options.json}`);
+}
+
+main();
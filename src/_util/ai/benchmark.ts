@@ -0,0 +1,188 @@
+/**
+ * File: src/_util/ai/benchmark.ts
+ * Module: AI – Benchmark
+ * Brief: Plays seeded games with a strategy, without React, and sums up how it did: win rate,
+ *        cells revealed, guesses taken and time per move. Every strategy plays the same seeds,
+ *        so results compare like for like and repeat across runs.
+ *
+ * Inputs:
+ *   - Strategies, board sizes, mine densities, a game count and a base seed.
+ * Outputs:
+ *   - One BenchmarkRow per strategy × size × density.
+ *
+ * Side Effects:
+ *   - None; the bots' own console logging is left to the caller (scripts/bench.ts silences it).
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-19
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { GameConfig } from "../engine";
+import type { Move, PlayerView } from "../playerView";
+import type { AiStrategy } from "./strategy";
+import { isMineAt, isRevealedAt } from "../compactBoard";
+import { UNIFORM } from "../distribution";
+import { createGame } from "../engine";
+import { DEFAULT_FIRST_CLICK } from "../firstClick";
+import { analyzeFrontier } from "../frontierSolver";
+import { applyMove, playerView, validateMove } from "../playerView";
+import { maxMines } from "../presets";
+import { createRng, deriveSeed } from "../rng";
+import { getTopology, indexOf } from "../topology";
+
+// Same sub-stream the page gives the AI, so a benchmark game replays like the seed in the app.
+const AI_RNG_STREAM = 1;
+
+// A game still running after this many moves per cell is given up (counted as not won).
+const MOVES_PER_CELL = 4;
+
+export type GameResult = {
+  won: boolean;
+  revealed: number;      // safe cells revealed by the end
+  safeCells: number;
+  moves: number;
+  guesses: number;       // reveals the view did not prove safe
+  moveMs: number;        // total time spent choosing moves
+  invalid: boolean;      // the game ended on a move the view rejects
+  error: string | null;  // the engine threw while applying a valid move (a bug, not a loss)
+};
+
+export type BenchmarkCase = {
+  strategy: AiStrategy;
+  rows: number;
+  cols: number;
+  density: number;       // mines per cell, e.g. 0.16 (capped to what the board can hold)
+};
+
+export type BenchmarkRow = {
+  strategy: string;
+  rows: number;
+  cols: number;
+  mines: number;
+  density: number;
+  games: number;
+  winRate: number;         // 0 … 1
+  avgRevealed: number;     // safe cells revealed per game
+  revealedShare: number;   // of all safe cells, 0 … 1
+  avgGuesses: number;
+  avgMoves: number;
+  msPerMove: number;
+  invalidMoves: number;    // games ended by a rejected move (should stay 0)
+  engineErrors: number;    // games ended by an engine error (should stay 0)
+};
+
+/**
+ * Function: benchmarkConfig(rows, cols, density, seed)
+ * Purpose: A classic game config (square board, default first-click policy, uniform mines).
+ * Notes:
+ *   - Throws an Error when the first-click safe area leaves no room for a single mine.
+ */
+export function benchmarkConfig(rows: number, cols: number, density: number, seed: number): GameConfig {
+  const firstClick = DEFAULT_FIRST_CLICK;
+  const room = maxMines(rows, cols, getTopology("square"), { multiMine: false, firstClick });
+  if (room < 1) throw new Error(`A ${rows}x${cols} board has no room for mines outside the first-click safe area`);
+  const mines = Math.max(1, Math.min(Math.round(rows * cols * density), room));
+  return {
+    rows, cols, mines, seed,
+    noGuess: false, multiMine: false, topology: "square", neighborhood: "moore", layers: 1,
+    firstClick, distribution: UNIFORM,
+  };
+}
+
+/**
+ * Function: isGuess(view, move)
+ * Purpose: Whether the move's reveal opens a cell the view does not prove safe.
+ * Notes:
+ *   - Before the first click only the first-click policy can make a cell safe.
+ *   - On boards the solver samples, only single-number certainties count as proven.
+ */
+function isGuess(view: PlayerView, move: Move): boolean {
+  if (move.click?.type !== "reveal") return false;
+  if (!view.started) return !view.firstClickSafe;
+  const i = indexOf(view.shape, move.click.at);
+  return !analyzeFrontier(view).safe.includes(i);
+}
+
+/**
+ * Function: playGame(strategy, config)
+ * Purpose: Let the strategy play one game to the end; the AI random stream comes from the seed.
+ */
+export function playGame(strategy: AiStrategy, config: GameConfig): GameResult {
+  const rng = createRng(deriveSeed(config.seed, AI_RNG_STREAM));
+  const cells = config.rows * config.cols;
+  let state = createGame(config);
+  let moves = 0, guesses = 0, moveMs = 0, invalid = false;
+  let error: string | null = null;
+
+  while (!state.gameOver && moves < cells * MOVES_PER_CELL) {
+    const view = playerView(state);
+    const t0 = performance.now();
+    const move = strategy.chooseMove(view, rng);
+    moveMs += performance.now() - t0;
+    if (!move) break;
+
+    if (validateMove(view, move) !== null) {
+      invalid = true;
+      break;
+    }
+    if (isGuess(view, move)) guesses++;
+    try {
+      state = applyMove(state, move);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      break;
+    }
+    moves++;
+  }
+
+  let revealed = 0;
+  for (let i = 0; i < cells; i++) {
+    if (isRevealedAt(state.store, i) && !isMineAt(state.store, i)) revealed++;
+  }
+  return {
+    won: state.gameOver === "won",
+    revealed,
+    safeCells: cells - config.mines,
+    moves, guesses, moveMs, invalid, error,
+  };
+}
+
+/**
+ * Function: runCase({ strategy, rows, cols, density }, games, seed)
+ * Purpose: Play `games` seeded games of one case and average the results.
+ * Notes:
+ *   - Game g uses seed deriveSeed(seed, g), the same for every strategy.
+ */
+export function runCase({ strategy, rows, cols, density }: BenchmarkCase, games: number, seed: number): BenchmarkRow {
+  let wins = 0, revealed = 0, safeCells = 0, guesses = 0, moves = 0, moveMs = 0, invalidMoves = 0, engineErrors = 0;
+  let mines = 0;
+  for (let g = 0; g < games; g++) {
+    const config = benchmarkConfig(rows, cols, density, deriveSeed(seed, g));
+    const result = playGame(strategy, config);
+    mines = config.mines;
+    if (result.won) wins++;
+    if (result.invalid) invalidMoves++;
+    if (result.error !== null) engineErrors++;
+    revealed += result.revealed;
+    safeCells += result.safeCells;
+    guesses += result.guesses;
+    moves += result.moves;
+    moveMs += result.moveMs;
+  }
+
+  return {
+    strategy: strategy.name,
+    rows, cols, mines, density, games,
+    winRate: games ? wins / games : 0,
+    avgRevealed: games ? revealed / games : 0,
+    revealedShare: safeCells ? revealed / safeCells : 0,
+    avgGuesses: games ? guesses / games : 0,
+    avgMoves: games ? moves / games : 0,
+    msPerMove: moves ? moveMs / moves : 0,
+    invalidMoves,
+    engineErrors,
+  };
+}
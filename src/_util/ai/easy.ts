@@ -0,0 +1,55 @@
+/**
+ * File: src/_util/ai/easy.ts
+ * Module: AI – Easy Bot
+ * Brief: Opens a random covered cell every turn.
+ *
+ * Inputs:
+ *   - A PlayerView and the AI random stream.
+ * Outputs:
+ *   - The strategy object, registered in ai/registry.ts.
+ *
+ * Side Effects:
+ *   - None.
+ *
+ * External Sources / Attribution:
+ *   - Moved from src/app/AiBehavior.tsx (authors: Kiara [Sam] Grimsley, Reeny Huang, Lauren D'Souza,
+ *     Audrey Pan, Ella Nguyen, Hart Nurnberg).
+ *
+ * Creation Date: 2025-10-18
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { Move, PlayerView } from "../playerView";
+import type { Rng } from "../rng";
+import type { AiStrategy } from "./strategy";
+import { randomInt } from "../rng";
+import { coordAt, formatCoord } from "../topology";
+import { unknownCells } from "./strategy";
+
+/**
+ * Easy AI (one move):
+ * - Picks a random hidden, unflagged cell and opens it.
+ * - If it’s the very first move, the engine places mines per the first-click policy.
+ * - Hitting a mine, flood-fill and winning are all handled by the engine.
+ */
+function chooseMove(view: PlayerView, rng: Rng): Move | null {
+  if (view.over) return null;
+
+  // Collect all cells that are still hidden and not flagged.
+  const candidates = unknownCells(view);
+
+  // Nothing left to click? Bail out.
+  if (candidates.length === 0) return null;
+
+  // Pick one random candidate and open it.
+  const at = coordAt(view.shape, candidates[randomInt(rng, candidates.length)]);
+  console.log(`Easy AI opened at ${formatCoord(view.shape, at)}`);
+  return { flags: [], click: { type: "reveal", at } };
+}
+
+export const easyAi: AiStrategy = {
+  name: "easy",
+  label: "Easy",
+  description: "Opens a random covered cell every turn",
+  chooseMove,
+};
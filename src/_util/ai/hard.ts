@@ -0,0 +1,135 @@
+/**
+ * File: src/_util/ai/hard.ts
+ * Module: AI – Hard Bot
+ * Brief: Solves the frontier exactly and guesses the least risky cell when nothing is certain.
+ *
+ * Inputs:
+ *   - A PlayerView and the AI random stream.
+ * Outputs:
+ *   - The strategy object, registered in ai/registry.ts.
+ *
+ * Side Effects:
+ *   - None.
+ *
+ * External Sources / Attribution:
+ *   - Moved from src/app/AiBehavior.tsx (authors: Kiara [Sam] Grimsley, Reeny Huang, Lauren D'Souza,
+ *     Audrey Pan, Ella Nguyen, Hart Nurnberg).
+ *
+ * Creation Date: 2025-10-18
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { Move, PlayerView } from "../playerView";
+import type { Rng } from "../rng";
+import type { AiStrategy } from "./strategy";
+import { analyzeFrontier } from "../frontierSolver";
+import { COVERED, unknownAt } from "../playerView";
+import { randomInt } from "../rng";
+import { coordAt, formatCoord } from "../topology";
+import { unknownCells } from "./strategy";
+
+/**
+ * Hard AI (one move):
+ * - Solves the whole frontier exactly (see `analyzeFrontier`): every consistent mine layout of
+ *   the covered cells next to numbers, combined with the remaining-mine count. Rule 1, Rule 2
+ *   and patterns such as 1-2-1 all fall out of that search.
+ * - Flags every certain mine, then opens one certain safe cell.
+ * - With no certain move, opens the covered cell least likely to hold a mine.
+ */
+function chooseMove(view: PlayerView, rng: Rng): Move | null {
+  if (view.over) return null;
+
+  const { cols } = view;
+  const cells = view.rows * cols;
+  const move: Move = { flags: [], click: null };
+
+  const at = (i: number) => coordAt(view.shape, i);
+  const where = (i: number) => formatCoord(view.shape, at(i));
+
+  // First move: open a random cell; the engine places mines per the first-click policy.
+  if (!view.started) {
+    const candidates = unknownCells(view);
+
+    if (candidates.length > 0) {
+      const i = candidates[randomInt(rng, candidates.length)];
+      console.log(`Hard AI first move at ${where(i)}`);
+      return { flags: [], click: { type: "reveal", at: at(i) } };
+    }
+  }
+
+  // ********************************************************
+  // Step 1: Solve the frontier from the numbers, flags and mine count
+  // ********************************************************
+  const analysis = analyzeFrontier(view);
+
+  // ********************************************************
+  // Step 2: Flag every certain mine (doesn't count as the "turn" by itself)
+  // ********************************************************
+  for (const [i, count] of analysis.mines) {
+    if (view.flags[i] === count) continue;
+    move.flags.push({ at: at(i), count });
+  }
+
+  // ********************************************************
+  // Step 3: Open one certain safe cell (one click per turn)
+  // ********************************************************
+  const sure = analysis.safe.find(i => unknownAt(view, i));
+  if (sure !== undefined) {
+    console.log(`Hard AI opened ${where(sure)} via frontier solver`);
+    move.click = { type: "reveal", at: at(sure) };
+    return move;
+  }
+
+  // ********************************************************
+  // Step 4: No certain move: guess the cell least likely to be a mine (ties broken at random)
+  // ********************************************************
+  if (analysis.consistent) {
+    let best = Infinity;
+    let choices: number[] = [];
+    for (let i = 0; i < cells; i++) {
+      const p = analysis.probability[i];
+      if (p < 0 || analysis.mines.has(i)) continue;
+      if (p < best - 1e-9) { best = p; choices = [i]; }
+      else if (p <= best + 1e-9) choices.push(i);
+    }
+    if (choices.length > 0) {
+      const i = choices[randomInt(rng, choices.length)];
+      console.log(`Hard AI guessed ${where(i)} with ${(best * 100).toFixed(1)}% mine risk`);
+      move.click = { type: "reveal", at: at(i) };
+      return move;
+    }
+  }
+
+  // ********************************************************
+  // Step 5: Board contradicts itself (e.g. a wrong player flag): fall back to a random guess
+  // ********************************************************
+  const candidates = unknownCells(view).filter(i => !analysis.mines.has(i));
+
+  if (candidates.length > 0) {
+    const i = candidates[randomInt(rng, candidates.length)];
+    console.log(`Hard AI fallback random at ${where(i)}`);
+    move.click = { type: "reveal", at: at(i) };
+    return move;
+  }
+
+  // ********************************************************
+  // Step 6: Last-resort: everything left is flagged: unflag one and open it
+  // ********************************************************
+  const flaggedCovered: number[] = [];
+  for (let i = 0; i < cells; i++) {
+    if (view.numbers[i] === COVERED && view.flags[i] > 0 && !analysis.mines.has(i)) flaggedCovered.push(i);
+  }
+  if (flaggedCovered.length > 0) {
+    const i = flaggedCovered[randomInt(rng, flaggedCovered.length)];
+    console.log(`Hard AI last-resort: unflag + open ${where(i)}`);
+    return { flags: [{ at: at(i), count: 0 }], click: { type: "reveal", at: at(i) } };
+  }
+  return move.flags.length > 0 ? move : null;
+}
+
+export const hardAi: AiStrategy = {
+  name: "hard",
+  label: "Hard",
+  description: "Solves the frontier exactly; guesses the cell least likely to be a mine when stuck",
+  chooseMove,
+};
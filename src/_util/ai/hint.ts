@@ -0,0 +1,107 @@
+/**
+ * File: src/_util/ai/hint.ts
+ * Module: AI – Hint
+ * Brief: Suggests a move the player's view proves right: opening a proven-safe cell, or else
+ *        flagging a proven mine. Limited to 3 hints per game.
+ *
+ * Inputs:
+ *   - A PlayerView and the AI random stream.
+ * Outputs:
+ *   - A HintResult carrying the move to play, if any.
+ *
+ * Side Effects:
+ *   - Counts the hints used (reset with resetHints() on a new game).
+ *
+ * External Sources / Attribution:
+ *   - Moved from src/app/AiBehavior.tsx (authors: Kiara [Sam] Grimsley, Reeny Huang, Lauren D'Souza,
+ *     Audrey Pan, Ella Nguyen, Hart Nurnberg).
+ *
+ * Creation Date: 2025-10-18
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { Move, PlayerView } from "../playerView";
+import type { Rng } from "../rng";
+import { analyzeFrontier } from "../frontierSolver";
+import { unknownAt } from "../playerView";
+import { randomInt } from "../rng";
+import { coordAt, formatCoord } from "../topology";
+import { unknownCells } from "./strategy";
+
+let hintUses = 0;
+const MAX_HINTS = 3;
+
+// resetHints() is called to reset the the hint count
+export function resetHints() {
+  hintUses = 0;
+}
+
+export type HintResult =
+  | { status: "good"; move: Move }           // hint available: play this move
+  | { status: "done" | "none"; move: null };  // no hints left or game over / no certain move
+
+/**
+ * Hint feature:
+ * - Looks at the player's view and offers a certain move: opens a cell the frontier solver
+ *   proves safe, or else flags a proven mine (3 times max).
+ * - Good: hint available
+ * - Done: no hints left or game already over
+ * - None: no move is certain (the player has to guess)
+ */
+export function hint(view: PlayerView, rng: Rng): HintResult {
+  // Check if hints are exhausted
+  if (hintUses >= MAX_HINTS) {
+    console.log("No hints remaining");
+    return { status: "done", move: null };
+  }
+
+  // If game already over, no hints needed
+  if (view.over) {
+    console.log("Game already over, no hints needed");
+    return { status: "done", move: null };
+  }
+  const at = (i: number) => coordAt(view.shape, i);
+  const where = (i: number) => formatCoord(view.shape, at(i));
+
+  // Collect all cells that are still hidden and not flagged.
+  const candidates = unknownCells(view);
+  if (candidates.length === 0) {
+    console.log("No hidden cells left for hint");
+    return { status: "none", move: null };
+  }
+
+  // First click special case: the engine places mines *after* this cell is chosen, so any
+  // cell is safe unless the first-click policy offers no protection.
+  if (!view.started) {
+    if (!view.firstClickSafe) {
+      console.log("No cell is known to be safe before the first click");
+      return { status: "none", move: null };
+    }
+    const i = candidates[randomInt(rng, candidates.length)];
+    hintUses++;
+    console.log(`Hint #${hintUses}: revealed ${where(i)}`);
+    return { status: "good", move: { flags: [], click: { type: "reveal", at: at(i) } } };
+  }
+
+  // Only cells the visible numbers prove safe (or proven mines) are suggested.
+  const analysis = analyzeFrontier(view);
+  const safe = analysis.safe.filter(i => unknownAt(view, i));
+  if (safe.length > 0) {
+    // Pick a random proven-safe cell to reveal
+    const i = safe[randomInt(rng, safe.length)];
+    hintUses++;
+    console.log(`Hint #${hintUses}: revealed ${where(i)}`);
+    return { status: "good", move: { flags: [], click: { type: "reveal", at: at(i) } } };
+  }
+
+  const mines = Array.from(analysis.mines).filter(([i, count]) => view.flags[i] !== count);
+  if (mines.length > 0) {
+    const [i, count] = mines[randomInt(rng, mines.length)];
+    hintUses++;
+    console.log(`Hint #${hintUses}: flagged ${where(i)}`);
+    return { status: "good", move: { flags: [{ at: at(i), count }], click: null } };
+  }
+
+  console.log("No certain move available for hint");
+  return { status: "none", move: null };
+}
@@ -0,0 +1,166 @@
+/**
+ * File: src/_util/ai/medium.ts
+ * Module: AI – Medium Bot
+ * Brief: Plays the two classic single-number rules, and guesses when they run out.
+ *
+ * Inputs:
+ *   - A PlayerView and the AI random stream.
+ * Outputs:
+ *   - The strategy object, registered in ai/registry.ts.
+ *
+ * Side Effects:
+ *   - None.
+ *
+ * External Sources / Attribution:
+ *   - Moved from src/app/AiBehavior.tsx (authors: Kiara [Sam] Grimsley, Reeny Huang, Lauren D'Souza,
+ *     Audrey Pan, Ella Nguyen, Hart Nurnberg).
+ *
+ * Creation Date: 2025-10-18
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { Move, PlayerView } from "../playerView";
+import type { Rng } from "../rng";
+import type { AiStrategy } from "./strategy";
+import { COVERED } from "../playerView";
+import { randomInt } from "../rng";
+import { coordAt, formatCoord } from "../topology";
+import { certainFlagCount } from "./strategy";
+
+/**
+ * Medium AI (one move):
+ * - Tries to make a logical move first.
+ * - Always reveals at least one tile on its turn (so interactive mode feels fair).
+ * - If logic is stuck, it guesses. If literally only flags remain, it unflags one and opens it.
+ */
+function chooseMove(view: PlayerView, rng: Rng): Move | null {
+  if (view.over) return null;
+
+  const { cols, perCell } = view;
+  const { start, list } = view.neighbors;
+  const cells = view.rows * cols;
+
+  // Private copy of the flags, so the flags this turn places count before they reach the engine.
+  const flags = Uint8Array.from(view.flags);
+  const covered = (i: number) => view.numbers[i] === COVERED;
+  const move: Move = { flags: [], click: null };
+
+  // Small helpers: index → coordinate (and its label), and what a revealed number sees around it
+  const at = (i: number) => coordAt(view.shape, i);
+  const where = (i: number) => formatCoord(view.shape, at(i));
+  const around = (i: number) => {
+    const hidden: number[] = [];
+    let flagged = 0;
+    for (let k = start[i]; k < start[i + 1]; k++) {
+      const n = list[k];
+      flagged += flags[n];
+      if (covered(n) && flags[n] === 0) hidden.push(n);
+    }
+    return { hidden, flagged };
+  };
+
+  // Buckets we’ll fill, then apply once.
+  const toFlag = new Map<number, number>(); // Rule 1 results (cell → flag count)
+  const toOpenRule = new Set<number>();  // Rule 2 results
+  const toOpenZero = new Set<number>();  // neighbors of revealed 0s (safe)
+
+  // Scan: neighbors of revealed 0s are safe -> open them (good for building frontier)
+  for (let i = 0; i < cells; i++) {
+    if (view.numbers[i] !== 0) continue;
+
+    for (let k = start[i]; k < start[i + 1]; k++) {
+      const n = list[k];
+      if (covered(n) && flags[n] === 0) toOpenZero.add(n);
+    }
+  }
+
+  // Scan: apply the two classic rules around revealed numbers
+  for (let i = 0; i < cells; i++) {
+    const adjacent = view.numbers[i];
+    if (adjacent <= 0) continue;
+
+    const { hidden, flagged } = around(i);
+
+    // Rule 1: all remaining hidden must be mines → flag them
+    const count = certainFlagCount(adjacent - flagged, hidden.length, perCell);
+    if (count > 0) {
+      for (const h of hidden) toFlag.set(h, count);
+    }
+
+    // Rule 2: all remaining hidden must be safe → open them
+    if (flagged === adjacent && hidden.length > 0) {
+      for (const h of hidden) toOpenRule.add(h);
+    }
+  }
+
+  // Apply flags first (doesn't count as the "turn" by itself)
+  for (const [i, count] of toFlag) {
+    if (covered(i) && flags[i] === 0) {
+      flags[i] = count;
+      move.flags.push({ at: at(i), count });
+    }
+  }
+
+  // Helper to open exactly one cell from a set (so the AI only "clicks" once per turn)
+  const openOne = (bucket: Set<number>, label: string) => {
+    for (const i of bucket) {
+      if (!covered(i) || flags[i] > 0) continue;
+
+      move.click = { type: "reveal", at: at(i) };
+      console.log(`Medium AI opened ${where(i)} via ${label}`);
+      return true;
+    }
+    return false;
+  };
+
+  // After flagging, new Rule 2 opens might appear. Quick pass to find one to click.
+  const r2 = new Set<number>();
+  for (let i = 0; i < cells; i++) {
+    const adjacent = view.numbers[i];
+    if (adjacent <= 0) continue;
+
+    const { hidden, flagged } = around(i);
+    if (flagged === adjacent && hidden.length > 0) {
+      for (const h of hidden) r2.add(h);
+    }
+  }
+  if (openOne(r2, "Rule 2 (post-flag)")) return move;
+
+  // Try one rule-based or zero-neighbor open
+  if (openOne(toOpenRule, "Rule 2")) return move;
+  if (openOne(toOpenZero, "zero-adjacent")) return move;
+
+  // If no logic move, guess a hidden, unflagged cell
+  // (on the very first move the engine places mines per the first-click policy).
+  const candidates: number[] = [];
+  for (let i = 0; i < cells; i++) {
+    if (covered(i) && flags[i] === 0) candidates.push(i);
+  }
+
+  if (candidates.length > 0) {
+    const i = candidates[randomInt(rng, candidates.length)];
+    console.log(`Medium AI random at ${where(i)}`);
+    move.click = { type: "reveal", at: at(i) };
+    return move;
+  }
+
+  // Last resort: everything left is flagged -> unflag one and open it so we finish.
+  const flaggedCovered: number[] = [];
+  for (let i = 0; i < cells; i++) {
+    if (covered(i) && flags[i] > 0) flaggedCovered.push(i);
+  }
+  if (flaggedCovered.length > 0) {
+    const i = flaggedCovered[randomInt(rng, flaggedCovered.length)];
+    console.log(`Medium AI last-resort: unflag + open ${where(i)}`);
+    move.flags.push({ at: at(i), count: 0 });
+    move.click = { type: "reveal", at: at(i) };
+  }
+  return move.flags.length > 0 || move.click ? move : null;
+}
+
+export const mediumAi: AiStrategy = {
+  name: "medium",
+  label: "Medium",
+  description: "Flags and opens with the single-number rules; guesses at random when stuck",
+  chooseMove,
+};
@@ -0,0 +1,37 @@
+/**
+ * File: src/_util/ai/registry.ts
+ * Module: AI – Strategy Registry
+ * Brief: The bots the game offers. The AI selector is built from this list and the page looks
+ *        strategies up by name, so a new bot is one file in this folder plus one entry here.
+ *
+ * Inputs:
+ *   - A strategy name (from the selector or a replay).
+ * Outputs:
+ *   - AI_STRATEGIES in selector order; lookup by name.
+ *
+ * Side Effects:
+ *   - None.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-18
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { AiStrategy } from "./strategy";
+import { easyAi } from "./easy";
+import { hardAi } from "./hard";
+import { mediumAi } from "./medium";
+
+export const AI_STRATEGIES: readonly AiStrategy[] = [easyAi, mediumAi, hardAi];
+
+export const DEFAULT_AI = easyAi;
+
+/**
+ * Function: aiStrategy(name)
+ * Purpose: The registered strategy called `name`, or DEFAULT_AI when there is none.
+ */
+export function aiStrategy(name: string): AiStrategy {
+  return AI_STRATEGIES.find(s => s.name === name) ?? DEFAULT_AI;
+}
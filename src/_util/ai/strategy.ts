@@ -0,0 +1,59 @@
+/**
+ * File: src/_util/ai/strategy.ts
+ * Module: AI – Strategy Interface
+ * Brief: What every bot implements. A strategy sees only the player's view (`PlayerView`) and
+ *        hands back one `Move`; the caller validates the move and applies it through the engine,
+ *        which owns placement, loss and win. Shared helpers for the built-in bots live here too.
+ *
+ * Inputs:
+ *   - A PlayerView and the AI random stream (so seeded games replay the same bot choices).
+ * Outputs:
+ *   - The AiStrategy interface; small helpers used by the bots.
+ *
+ * Side Effects:
+ *   - None.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-18
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { Move, PlayerView } from "../playerView";
+import type { Rng } from "../rng";
+import { unknownAt } from "../playerView";
+
+export interface AiStrategy {
+  name: string;           // stable id: recorded as the replay source and kept in the selector
+  label: string;          // shown in the AI selector
+  description: string;
+  // One turn: flags to place, then at most one click; null when there is nothing to do.
+  chooseMove(view: PlayerView, rng: Rng): Move | null;
+}
+
+/**
+ * Function: certainFlagCount(remaining, hidden, perCell)
+ * Purpose: Rule 1 helper: how many flags each of `hidden` covered cells must get when
+ *          `remaining` mines around a number are left to place, or 0 when that is not certain.
+ * Notes:
+ *   - Certain when the cells are filled to capacity, or a single cell must take them all.
+ */
+export function certainFlagCount(remaining: number, hidden: number, perCell: number): number {
+  if (hidden === 0 || remaining <= 0) return 0;
+  if (remaining === hidden * perCell) return perCell;
+  if (hidden === 1 && remaining <= perCell) return remaining;
+  return 0;
+}
+
+/**
+ * Function: unknownCells(view)
+ * Purpose: Every cell a bot may still open (covered, unflagged), as cell indices (see `indexOf`).
+ */
+export function unknownCells(view: PlayerView): number[] {
+  const candidates: number[] = [];
+  for (let i = 0; i < view.rows * view.cols; i++) {
+    if (unknownAt(view, i)) candidates.push(i);
+  }
+  return candidates;
+}
@@ -0,0 +1,193 @@
+/**
+ * File: src/_util/boardCode.ts
+ * Module: Game Logic – Board Import/Export
+ * Brief: Versioned, compact serialization of a board layout into a URL-safe share code,
+ *        so a specific position (mines, and optionally what has been revealed/flagged)
+ *        can be sent to someone else and reloaded exactly.
+ *
+ * Format (version 1, before base64url encoding):
+ *   byte 0      version (1)
+ *   bytes 1–2   rows (uint16, big-endian)
+ *   bytes 3–4   cols (uint16, big-endian)
+ *   byte 5      topology index (see TOPOLOGY_CODES)
+ *   byte 6      flags: bit 0 = cell state section present, bit 1 = multi-mine board,
+ *               bits 2–4 = neighborhood index (see NEIGHBORHOOD_CODES),
+ *               bits 5–7 = layers − 1 (layered boards: rows holds every layer, stacked)
+ *   then        mine bitfield, 1 bit per cell, row-major, MSB first
+ *               (multi-mine: 2 bits per cell holding the cell's mine count, 0–3)
+ *   then        (optional) 2 bits per cell: 0 covered, 1 revealed, 2 flagged, 3 "?"
+ *   then        (optional, multi-mine only) 2 bits per cell: flag count, 0–3
+ *
+ * Inputs:
+ *   - Cell[][] + the rules it is played under (encode) or a share code string (decode).
+ * Outputs:
+ *   - A share code string, or a decoded BoardSnapshot with adjacency recomputed.
+ *
+ * Side Effects:
+ *   - None.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-13
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { GameConfig } from "./engine";
+import type { Cell } from "./grid";
+import type { NeighborhoodKind, TopologyKind } from "./topology";
+import { createEmptyBoard, computeAdjacency } from "./grid";
+import { topologyOf } from "./engine";
+
+export const BOARD_CODE_VERSION = 1;
+
+// Stable numbering for the topology byte; append new kinds, never reorder.
+const TOPOLOGY_CODES: TopologyKind[] = ["square", "hex", "torus"];
+const NEIGHBORHOOD_CODES: NeighborhoodKind[] = ["moore", "knight", "extended", "orthogonal"];
+
+const HEADER_BYTES = 7;
+const FLAG_HAS_STATE = 1;
+const FLAG_MULTI_MINE = 2;
+const NEIGHBORHOOD_SHIFT = 2;
+const NEIGHBORHOOD_MASK = 7;
+const LAYERS_SHIFT = 5;
+const LAYERS_MASK = 7;
+
+// Rules stored alongside the layout (a GameConfig satisfies this).
+export type BoardRules = Pick<GameConfig, "topology" | "neighborhood" | "multiMine" | "layers">;
+
+export type BoardSnapshot = BoardRules & {
+  rows: number;
+  cols: number;
+  mines: number;
+  board: Cell[][];
+};
+
+// Cell annotation states in the optional 2-bit section.
+const STATE_COVERED = 0;
+const STATE_REVEALED = 1;
+const STATE_FLAGGED = 2;
+const STATE_QUESTIONED = 3;
+
+/**
+ * Function: encodeBoard(board, rules, includeState)
+ * Purpose: Serialize a board into a share code.
+ * Inputs:
+ *   - board: Cell[][]
+ *   - rules: BoardRules – topology, neighborhood, layers, and whether cells hold mine/flag counts
+ *   - includeState: boolean (default true) – also store revealed/flagged/"?" per cell
+ * Outputs:
+ *   - Returns a base64url string (no padding), safe to paste into URLs.
+ */
+export function encodeBoard(board: Cell[][], rules: BoardRules, includeState = true): string {
+  const { topology, neighborhood, multiMine, layers } = rules;
+  const rows = board.length;
+  const cols = board[0].length;
+  const cells = rows * cols;
+  const mineBytes = Math.ceil(cells / (multiMine ? 4 : 8));
+  const stateBytes = includeState ? Math.ceil(cells / 4) : 0;
+  const flagCountBytes = includeState && multiMine ? Math.ceil(cells / 4) : 0;
+  const bytes = new Uint8Array(HEADER_BYTES + mineBytes + stateBytes + flagCountBytes);
+
+  bytes[0] = BOARD_CODE_VERSION;
+  bytes[1] = rows >> 8; bytes[2] = rows & 0xff;
+  bytes[3] = cols >> 8; bytes[4] = cols & 0xff;
+  bytes[5] = TOPOLOGY_CODES.indexOf(topology);
+  bytes[6] = (includeState ? FLAG_HAS_STATE : 0)
+    | (multiMine ? FLAG_MULTI_MINE : 0)
+    | (NEIGHBORHOOD_CODES.indexOf(neighborhood) << NEIGHBORHOOD_SHIFT)
+    | ((layers - 1) << LAYERS_SHIFT);
+
+  board.flat().forEach((cell, i) => {
+    if (multiMine) bytes[HEADER_BYTES + (i >> 2)] |= cell.mineCount << (6 - 2 * (i & 3));
+    else if (cell.isMine) bytes[HEADER_BYTES + (i >> 3)] |= 0x80 >> (i & 7);
+    if (includeState) {
+      const state = cell.revealed ? STATE_REVEALED
+        : cell.flagged ? STATE_FLAGGED
+        : cell.questioned ? STATE_QUESTIONED
+        : STATE_COVERED;
+      bytes[HEADER_BYTES + mineBytes + (i >> 2)] |= state << (6 - 2 * (i & 3));
+      if (multiMine) bytes[HEADER_BYTES + mineBytes + stateBytes + (i >> 2)] |= cell.flagCount << (6 - 2 * (i & 3));
+    }
+  });
+
+  return toBase64Url(bytes);
+}
+
+/**
+ * Function: decodeBoard(code)
+ * Purpose: Parse a share code back into a board.
+ * Inputs:
+ *   - code: string (surrounding whitespace is ignored)
+ * Outputs:
+ *   - Returns a BoardSnapshot; adjacency is recomputed for the stored topology, neighborhood and layers.
+ * Errors:
+ *   - Throws an Error with a user-readable message if the code is malformed or from
+ *     an unsupported version.
+ */
+export function decodeBoard(code: string): BoardSnapshot {
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(code.trim());
+  } catch {
+    throw new Error("Board code is not valid base64url text");
+  }
+  if (bytes.length < HEADER_BYTES) throw new Error("Board code is too short");
+  if (bytes[0] !== BOARD_CODE_VERSION) throw new Error(`Unsupported board code version ${bytes[0]}`);
+
+  const rows = (bytes[1] << 8) | bytes[2];
+  const cols = (bytes[3] << 8) | bytes[4];
+  const topology = TOPOLOGY_CODES[bytes[5]];
+  const hasState = (bytes[6] & FLAG_HAS_STATE) !== 0;
+  const multiMine = (bytes[6] & FLAG_MULTI_MINE) !== 0;
+  const neighborhood = NEIGHBORHOOD_CODES[(bytes[6] >> NEIGHBORHOOD_SHIFT) & NEIGHBORHOOD_MASK];
+  const layers = ((bytes[6] >> LAYERS_SHIFT) & LAYERS_MASK) + 1;
+  if (rows < 1 || cols < 1) throw new Error("Board code has empty dimensions");
+  if (rows % layers !== 0) throw new Error("Board code rows do not split evenly into its layers");
+  if (!topology) throw new Error("Board code uses an unknown board type");
+  if (!neighborhood) throw new Error("Board code uses an unknown neighborhood");
+
+  const cells = rows * cols;
+  const mineBytes = Math.ceil(cells / (multiMine ? 4 : 8));
+  const stateBytes = hasState ? Math.ceil(cells / 4) : 0;
+  const flagCountBytes = hasState && multiMine ? Math.ceil(cells / 4) : 0;
+  if (bytes.length !== HEADER_BYTES + mineBytes + stateBytes + flagCountBytes) {
+    throw new Error("Board code length does not match its dimensions");
+  }
+
+  const board = createEmptyBoard(rows, cols);
+  let mines = 0;
+  board.flat().forEach((cell, i) => {
+    cell.mineCount = multiMine
+      ? (bytes[HEADER_BYTES + (i >> 2)] >> (6 - 2 * (i & 3))) & 3
+      : (bytes[HEADER_BYTES + (i >> 3)] >> (7 - (i & 7))) & 1;
+    cell.isMine = cell.mineCount > 0;
+    mines += cell.mineCount;
+    if (hasState) {
+      const state = (bytes[HEADER_BYTES + mineBytes + (i >> 2)] >> (6 - 2 * (i & 3))) & 3;
+      cell.revealed = state === STATE_REVEALED;
+      cell.flagged = state === STATE_FLAGGED;
+      cell.questioned = state === STATE_QUESTIONED;
+      cell.flagCount = !cell.flagged ? 0
+        : multiMine ? Math.max(1, (bytes[HEADER_BYTES + mineBytes + stateBytes + (i >> 2)] >> (6 - 2 * (i & 3))) & 3)
+        : 1;
+    }
+  });
+  computeAdjacency(board, topologyOf({ topology, neighborhood, layers }));
+
+  return { rows, cols, mines, topology, neighborhood, multiMine, layers, board };
+}
+
+// base64url helpers (RFC 4648 §5) built on btoa/atob, available in browsers and Node ≥ 16.
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new Error("invalid base64url");
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+}
@@ -0,0 +1,295 @@
+/**
+ * File: src/_util/compactBoard.ts
+ * Module: Game Logic – Compact Board Store
+ * Brief: Typed-array board store the rules engine plays on. One byte per cell holds mine
+ *        count, flag count, revealed and "?" bits; a Uint8Array holds adjacency; neighbor
+ *        lists come from the shared tables in neighborTable.ts. Writes are dirty-tracked so
+ *        changes can be copied back into a `Cell[][]` while sharing every untouched row
+ *        (which also lets the grid skip re-rendering those rows).
+ *
+ * Inputs:
+ *   - Board dimensions, or an existing Cell[][]; topology for neighbor-based operations.
+ * Outputs:
+ *   - CompactBoard values, and Cell[][] boards rebuilt from them.
+ *
+ * Side Effects:
+ *   - Mutators change the passed-in CompactBoard in place (and record dirty cells);
+ *     `commitToCells` never mutates the Cell[][] it is given.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-14
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { Distribution } from "./distribution";
+import type { FirstClickPolicy } from "./firstClick";
+import type { Cell } from "./grid";
+import type { Rng } from "./rng";
+import type { Coord, Topology } from "./topology";
+import { UNIFORM, mineSampler } from "./distribution";
+import { DEFAULT_FIRST_CLICK, firstClickZone } from "./firstClick";
+import { assertRoom } from "./grid";
+import { neighborTable } from "./neighborTable";
+import { SQUARE, boardShape, indexOf } from "./topology";
+
+// Per-cell bitfield layout.
+const MINE_MASK = 0b0000_0011;   // mines in the cell (0–3)
+const FLAG_MASK = 0b0000_1100;   // flags on the cell (0–3)
+const FLAG_SHIFT = 2;
+const REVEALED = 0b0001_0000;
+const QUESTIONED = 0b0010_0000;
+
+export type CompactBoard = {
+  rows: number;
+  cols: number;
+  bits: Uint8Array;        // per-cell bitfield, row-major (index = r * cols + c)
+  adjacent: Uint8Array;    // neighboring mine total; meaningless on mined cells. Shared by clones
+  dirty: Set<number>;      // cells written since the last commit, in write order
+};
+
+/**
+ * Function: createCompactBoard(rows, cols)
+ * Purpose: Create an all-covered, mine-free compact board.
+ */
+export function createCompactBoard(rows: number, cols: number): CompactBoard {
+  return {
+    rows,
+    cols,
+    bits: new Uint8Array(rows * cols),
+    adjacent: new Uint8Array(rows * cols),
+    dirty: new Set(),
+  };
+}
+
+/**
+ * Function: fromCells(board)
+ * Purpose: Pack a Cell[][] into a compact board (nothing marked dirty).
+ */
+export function fromCells(board: Cell[][]): CompactBoard {
+  const rows = board.length;
+  const cols = board[0].length;
+  const out = createCompactBoard(rows, cols);
+  for (let r = 0; r < rows; r++) {
+    const row = board[r];
+    for (let c = 0; c < cols; c++) {
+      const cell = row[c];
+      const i = r * cols + c;
+      out.bits[i] = cell.mineCount
+        | (cell.flagCount << FLAG_SHIFT)
+        | (cell.revealed ? REVEALED : 0)
+        | (cell.questioned ? QUESTIONED : 0);
+      out.adjacent[i] = cell.adjacent > 0 ? cell.adjacent : 0;
+    }
+  }
+  return out;
+}
+
+/**
+ * Function: cloneCompact(board)
+ * Purpose: Copy to write a move into: the bitfield is copied, the dirty list starts empty.
+ * Notes:
+ *   - `adjacent` is shared: it only changes when mines are laid out, and
+ *     `computeAdjacencyCompact` replaces the array instead of writing into it.
+ */
+export function cloneCompact(board: CompactBoard): CompactBoard {
+  return {
+    rows: board.rows,
+    cols: board.cols,
+    bits: board.bits.slice(),
+    adjacent: board.adjacent,
+    dirty: new Set(),
+  };
+}
+
+/**
+ * Function: indexAt(board, r, c)
+ * Purpose: Cell index of (r,c), or −1 when it is not a cell of the board.
+ */
+export function indexAt(board: CompactBoard, r: number, c: number): number {
+  const inside = Number.isInteger(r) && Number.isInteger(c) && r >= 0 && r < board.rows && c >= 0 && c < board.cols;
+  return inside ? r * board.cols + c : -1;
+}
+
+// Cell object for index i, in the shape used by the rest of the game.
+function toCell(board: CompactBoard, i: number): Cell {
+  const mineCount = mineCountAt(board, i);
+  const flagCount = flagCountAt(board, i);
+  return {
+    row: Math.floor(i / board.cols),
+    col: i % board.cols,
+    isMine: mineCount > 0,
+    mineCount,
+    adjacent: adjacentAt(board, i),
+    revealed: isRevealedAt(board, i),
+    flagged: flagCount > 0,
+    flagCount,
+    questioned: isQuestionedAt(board, i),
+  };
+}
+
+/**
+ * Function: toCells(board)
+ * Purpose: Materialize a full Cell[][] (after mines are laid out, or for a board built headlessly).
+ */
+export function toCells(board: CompactBoard): Cell[][] {
+  return Array.from({ length: board.rows }, (_, r) =>
+    Array.from({ length: board.cols }, (_, c) => toCell(board, r * board.cols + c))
+  );
+}
+
+/**
+ * Function: commitToCells(board, base)
+ * Purpose: Produce the Cell[][] that `base` becomes after this board's dirty writes.
+ * Outputs:
+ *   - Returns a new Cell[][] that reuses every row (and cell object) nobody wrote to,
+ *     or `base` itself when nothing is dirty. Clears the dirty list.
+ * Notes:
+ *   - `base` is not mutated, so earlier game states (undo history) stay intact.
+ */
+export function commitToCells(board: CompactBoard, base: Cell[][]): Cell[][] {
+  if (board.dirty.size === 0) return base;
+  const next = base.slice();
+  const copied = new Set<number>();
+  for (const i of board.dirty) {
+    const r = Math.floor(i / board.cols);
+    if (!copied.has(r)) {
+      next[r] = base[r].slice();
+      copied.add(r);
+    }
+    next[r][i % board.cols] = toCell(board, i);
+  }
+  board.dirty.clear();
+  return next;
+}
+
+// ---- Accessors -------------------------------------------------------------------------
+
+export function mineCountAt(board: CompactBoard, i: number): number {
+  return board.bits[i] & MINE_MASK;
+}
+
+export function isMineAt(board: CompactBoard, i: number): boolean {
+  return (board.bits[i] & MINE_MASK) !== 0;
+}
+
+// Same convention as Cell.adjacent: −1 on a mined cell.
+export function adjacentAt(board: CompactBoard, i: number): number {
+  return board.bits[i] & MINE_MASK ? -1 : board.adjacent[i];
+}
+
+export function flagCountAt(board: CompactBoard, i: number): number {
+  return (board.bits[i] & FLAG_MASK) >> FLAG_SHIFT;
+}
+
+export function isFlaggedAt(board: CompactBoard, i: number): boolean {
+  return (board.bits[i] & FLAG_MASK) !== 0;
+}
+
+export function isRevealedAt(board: CompactBoard, i: number): boolean {
+  return (board.bits[i] & REVEALED) !== 0;
+}
+
+export function isQuestionedAt(board: CompactBoard, i: number): boolean {
+  return (board.bits[i] & QUESTIONED) !== 0;
+}
+
+// ---- Mutators (dirty-tracked) ------------------------------------------------------------
+
+export function setRevealed(board: CompactBoard, i: number) {
+  board.bits[i] = (board.bits[i] | REVEALED) & ~QUESTIONED;
+  board.dirty.add(i);
+}
+
+export function setFlagCount(board: CompactBoard, i: number, count: number) {
+  board.bits[i] = (board.bits[i] & ~FLAG_MASK & ~QUESTIONED) | (count << FLAG_SHIFT);
+  board.dirty.add(i);
+}
+
+export function setQuestioned(board: CompactBoard, i: number, questioned: boolean) {
+  board.bits[i] = questioned ? board.bits[i] | QUESTIONED : board.bits[i] & ~QUESTIONED;
+  board.dirty.add(i);
+}
+
+// ---- Board operations ----------------------------------------------------------------------
+
+/**
+ * Function: placeMinesCompact(board, mines, exclude, rng, topology, maxPerCell, firstClick, distribution)
+ * Purpose: Same as `placeMines` in grid.ts (same rng draws, so a seed yields the same
+ *          layout in either store), writing into the compact board.
+ * Notes:
+ *   - Mine placement is not dirty-tracked; commit after `computeAdjacencyCompact` with
+ *     `toCells` rather than `commitToCells`.
+ */
+export function placeMinesCompact(
+  board: CompactBoard,
+  mines: number,
+  exclude: { r: number; c: number },
+  rng: Rng = Math.random,
+  topology: Topology = SQUARE,
+  maxPerCell = 1,
+  firstClick: FirstClickPolicy = DEFAULT_FIRST_CLICK,
+  distribution: Distribution = UNIFORM,
+) {
+  const { rows, cols } = board;
+  const excluded = firstClickZone(firstClick, topology, rows, cols, exclude.r, exclude.c);
+  assertRoom(mines, rows * cols - excluded.size, maxPerCell);
+  const sample = mineSampler(distribution, rows, cols, topology);
+  const available = (i: number) => !excluded.has(i) && (board.bits[i] & MINE_MASK) < maxPerCell;
+  let placed = 0;
+
+  while (placed < mines) {
+    const i = sample(rng, available);
+    if (!available(i)) continue;
+    board.bits[i]++;   // mine count lives in the low bits
+    placed++;
+  }
+}
+
+/**
+ * Function: computeAdjacencyCompact(board, topology)
+ * Purpose: Give the board a fresh `adjacent` array with the total mines among each cell's neighbors.
+ * Notes:
+ *   - Walks the topology's neighbor table, whose entries are coordinates as cell indices.
+ *   - Replaces the array rather than writing into it, so boards it was cloned from keep theirs.
+ */
+export function computeAdjacencyCompact(board: CompactBoard, topology: Topology = SQUARE) {
+  const { start, list } = neighborTable(topology, board.rows, board.cols);
+  const adjacent = new Uint8Array(board.bits.length);
+  for (let i = 0; i < board.bits.length; i++) {
+    let count = 0;
+    for (let k = start[i]; k < start[i + 1]; k++) count += board.bits[list[k]] & MINE_MASK;
+    adjacent[i] = count;
+  }
+  board.adjacent = adjacent;
+}
+
+/**
+ * Function: floodFillCompact(board, from, topology)
+ * Purpose: Same rules as `floodFill` in grid.ts: reveal from the `from` coordinate, expanding
+ *          through 0-cells, skipping flags and clearing "?" on reveal. Revealed cells are marked dirty.
+ * Outputs:
+ *   - Returns the number of cells newly revealed.
+ */
+export function floodFillCompact(board: CompactBoard, from: Coord, topology: Topology = SQUARE): number {
+  const { start, list } = neighborTable(topology, board.rows, board.cols);
+  const stack = [indexOf(boardShape(board.rows, board.cols, topology.layers), from)];
+  let opened = 0;
+
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const bits = board.bits[i];
+    if (bits & (REVEALED | FLAG_MASK)) continue;  // already revealed or flagged
+    setRevealed(board, i);
+    opened++;
+
+    if (board.adjacent[i] === 0 && !(bits & MINE_MASK)) {
+      for (let k = start[i]; k < start[i + 1]; k++) {
+        const n = list[k];
+        if (!(board.bits[n] & (REVEALED | MINE_MASK))) stack.push(n);
+      }
+    }
+  }
+  return opened;
+}
@@ -0,0 +1,236 @@
+/**
+ * File: src/_util/distribution.ts
+ * Module: Game Logic – Mine Distribution Strategies
+ * Brief: Where `placeMines` puts mines. Each strategy turns a board shape into a sampler that
+ *        proposes the next cell for a mine: uniform (the original behavior), clustered,
+ *        edge-biased, sparse-center, or a pattern template scaled to the board.
+ *
+ * Inputs:
+ *   - A Distribution (kept in the game config, so replays and stats know which one was used),
+ *     the board size and topology; while placing, the rng and which cells can still take a mine.
+ * Outputs:
+ *   - MineSampler functions returning cell indices (r * cols + c).
+ *
+ * Side Effects:
+ *   - None; samplers only keep their own per-layout state (e.g. the clusters grown so far).
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-15
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { Rng } from "./rng";
+import type { Topology } from "./topology";
+import { toCoord } from "./topology";
+
+export type Distribution =
+  | { kind: "uniform" }
+  | { kind: "clustered" }
+  | { kind: "edge" }
+  | { kind: "sparseCenter" }
+  | { kind: "pattern"; template: string };   // rows of text; "#" marks where mines go
+
+export type DistributionKind = Distribution["kind"];
+
+// Proposes the next cell for a mine. `available(i)` is false for cells in the first-click
+// zone or already at capacity; `placeMines` redraws when an unavailable cell comes back.
+export type MineSampler = (rng: Rng, available: (i: number) => boolean) => number;
+
+export interface DistributionStrategy {
+  kind: DistributionKind;
+  label: string;          // shown in the layout selector, stats and replays
+  description: string;
+  sampler(distribution: Distribution, rows: number, cols: number, topology: Topology): MineSampler;
+}
+
+export const UNIFORM: Distribution = { kind: "uniform" };
+
+// Built-in pattern templates for themed boards (any text in the same format can be loaded).
+export const PATTERN_TEMPLATES: Record<string, string> = {
+  Ring: [
+    "..####..",
+    ".#....#.",
+    "#......#",
+    "#......#",
+    "#......#",
+    "#......#",
+    ".#....#.",
+    "..####..",
+  ].join("\n"),
+  Cross: [
+    "...##...",
+    "...##...",
+    "...##...",
+    "########",
+    "########",
+    "...##...",
+    "...##...",
+    "...##...",
+  ].join("\n"),
+  Stripes: [
+    "#.#.#.#.",
+    "#.#.#.#.",
+  ].join("\n"),
+  Checkerboard: [
+    "##..",
+    "##..",
+    "..##",
+    "..##",
+  ].join("\n"),
+};
+
+// Chance that a clustered mine is grown next to an existing one instead of seeding a new cluster.
+const CLUSTER_GROWTH = 0.7;
+
+/**
+ * Function: parseTemplate(template)
+ * Purpose: Read a pattern template into rows of booleans (true = mine spot).
+ * Notes:
+ *   - "#", "X", "x" and "*" mark mine spots; any other character is empty. Blank lines are
+ *     ignored and short rows are padded, so hand-written templates need not be exact.
+ *   - Throws an Error with a user-readable message when no mine spot is marked.
+ */
+export function parseTemplate(template: string): boolean[][] {
+  const lines = template.split(/\r?\n/).map(line => line.trimEnd()).filter(line => line.length > 0);
+  const width = Math.max(0, ...lines.map(line => line.length));
+  const grid = lines.map(line => Array.from({ length: width }, (_, i) => "#Xx*".includes(line[i] ?? ".")));
+  if (!grid.some(row => row.some(Boolean))) {
+    throw new Error('Pattern template has no mine spots (mark them with "#")');
+  }
+  return grid;
+}
+
+// Pick an available cell with probability proportional to its weight; cells with weight 0
+// are only used once no weighted cell is left (then all available cells are equally likely).
+function weightedPick(rng: Rng, weights: Float64Array, available: (i: number) => boolean): number {
+  let total = 0;
+  for (let i = 0; i < weights.length; i++) if (available(i)) total += weights[i];
+  if (total === 0) return uniformAvailable(rng, weights.length, available);
+
+  let x = rng() * total;
+  let last = 0;
+  for (let i = 0; i < weights.length; i++) {
+    if (!available(i) || weights[i] === 0) continue;
+    last = i;
+    x -= weights[i];
+    if (x < 0) return i;
+  }
+  return last;   // floating-point leftovers
+}
+
+function uniformAvailable(rng: Rng, cells: number, available: (i: number) => boolean): number {
+  let count = 0;
+  for (let i = 0; i < cells; i++) if (available(i)) count++;
+  let k = Math.floor(rng() * count);
+  for (let i = 0; i < cells; i++) {
+    if (available(i) && k-- === 0) return i;
+  }
+  return 0;   // nothing available: placeMines has already checked there is room
+}
+
+// Fixed per-cell weights from a function of the cell position within its layer, so every layer
+// of a layered board gets its own edges, centre and copy of a pattern (`layerRows` = its height).
+function weightsFrom(
+  rows: number,
+  cols: number,
+  topology: Topology,
+  weight: (r: number, c: number, layerRows: number) => number,
+): Float64Array {
+  const layerRows = rows / topology.layers;
+  const weights = new Float64Array(rows * cols);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) weights[r * cols + c] = weight(toCoord(layerRows, r, c).r, c, layerRows);
+  }
+  return weights;
+}
+
+export const DISTRIBUTIONS: Record<DistributionKind, DistributionStrategy> = {
+  uniform: {
+    kind: "uniform",
+    label: "Uniform",
+    description: "Every cell is equally likely (the classic layout)",
+    // Same two draws per proposal as the original placeMines, so seeds keep their layouts.
+    sampler: (_d, rows, cols) => rng => {
+      const r = Math.floor(rng() * rows);
+      const c = Math.floor(rng() * cols);
+      return r * cols + c;
+    },
+  },
+
+  clustered: {
+    kind: "clustered",
+    label: "Clustered",
+    description: "Mines tend to sit next to other mines, leaving wide open areas between clumps",
+    sampler: (_d, rows, cols, topology) => {
+      const mined: number[] = [];
+      return (rng, available) => {
+        let pick = -1;
+        if (mined.length > 0 && rng() < CLUSTER_GROWTH) {
+          const from = mined[Math.floor(rng() * mined.length)];
+          const around = topology
+            .neighbors(rows, cols, Math.floor(from / cols), from % cols)
+            .map(([nr, nc]) => nr * cols + nc)
+            .filter(available);
+          if (around.length > 0) pick = around[Math.floor(rng() * around.length)];
+        }
+        if (pick < 0) pick = uniformAvailable(rng, rows * cols, available);
+        mined.push(pick);
+        return pick;
+      };
+    },
+  },
+
+  edge: {
+    kind: "edge",
+    label: "Edge-biased",
+    description: "Mines crowd the outer rows and columns; the middle is safer",
+    sampler: (_d, rows, cols, topology) => {
+      const weights = weightsFrom(rows, cols, topology, (r, c, layerRows) => {
+        const d = Math.min(r, c, layerRows - 1 - r, cols - 1 - c);   // distance to the layer's nearest edge
+        return 1 / (1 + d) ** 2;
+      });
+      return (rng, available) => weightedPick(rng, weights, available);
+    },
+  },
+
+  sparseCenter: {
+    kind: "sparseCenter",
+    label: "Sparse center",
+    description: "Few mines near the center, more toward the corners",
+    sampler: (_d, rows, cols, topology) => {
+      const cr = (rows / topology.layers - 1) / 2;   // centre of each layer
+      const cc = (cols - 1) / 2;
+      const weights = weightsFrom(rows, cols, topology, (r, c) => {
+        // 0 at the center, 1 at the middle of each edge (corners go past 1).
+        const t = Math.hypot((r - cr) / Math.max(cr, 1), (c - cc) / Math.max(cc, 1));
+        return 0.05 + Math.min(t, 1.5) ** 2;
+      });
+      return (rng, available) => weightedPick(rng, weights, available);
+    },
+  },
+
+  pattern: {
+    kind: "pattern",
+    label: "Pattern",
+    description: "Mines fill the spots marked in a template (stretched to the board), then spill elsewhere",
+    sampler: (d, rows, cols, topology) => {
+      const grid = parseTemplate(d.kind === "pattern" ? d.template : "#");
+      const weights = weightsFrom(rows, cols, topology, (r, c, layerRows) => {
+        const tr = Math.floor((r * grid.length) / layerRows);
+        const tc = Math.floor((c * grid[0].length) / cols);
+        return grid[tr][tc] ? 1 : 0;
+      });
+      return (rng, available) => weightedPick(rng, weights, available);
+    },
+  },
+};
+
+/**
+ * Function: mineSampler(distribution, rows, cols, topology)
+ * Purpose: Fresh sampler for one layout (clustered samplers remember the mines they placed).
+ */
+export function mineSampler(distribution: Distribution, rows: number, cols: number, topology: Topology): MineSampler {
+  return DISTRIBUTIONS[distribution.kind].sampler(distribution, rows, cols, topology);
+}
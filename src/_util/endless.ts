@@ -0,0 +1,266 @@
+/**
+ * File: src/_util/endless.ts
+ * Module: Game Logic – Endless (Infinite) Board
+ * Brief: Rules for the endless mode: a board with no edges whose mines are generated
+ *        deterministically per CHUNK_SIZE×CHUNK_SIZE chunk from the game seed the first time
+ *        a chunk is needed. Reveals flood across chunk boundaries; the score is the number
+ *        of safe cells revealed before a mine is hit.
+ *
+ * Inputs:
+ *   - EndlessState (previous state) and an EndlessAction; coordinates are unbounded
+ *     integers (negative rows/columns are fine).
+ * Outputs:
+ *   - A new EndlessState. Invalid or no-op actions return the same state object unchanged.
+ *
+ * Side Effects:
+ *   - None visible: player state is copy-on-write per chunk. Mine layouts are cached in
+ *     `state.mines` as they are generated; they depend only on the seed, so filling the
+ *     cache never changes the game.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-14
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import { createRng, deriveSeed, randomInt } from "./rng";
+
+export const CHUNK_SIZE = 16;
+const CHUNK_CELLS = CHUNK_SIZE * CHUNK_SIZE;
+
+// Mine densities offered by the UI. Below ~10% the 0-cells can form an unbounded
+// region (site percolation), and a single click would never finish flooding.
+export const ENDLESS_DENSITIES = [0.15, 0.2, 0.25] as const;
+
+// Most cells one action opens. A region still unusually large is not dropped: the rest of
+// the flood waits in `pending` and a "continue" action (the page sends one per frame) resumes it.
+const MAX_FLOOD_CELLS = 50_000;
+
+// Cells within this distance of the origin never hold mines, so the game opens safely there.
+const SAFE_RADIUS = 1;
+
+export type EndlessConfig = {
+  seed: number;
+  density: number;   // fraction of cells holding a mine (per chunk, exact)
+};
+
+// Player-visible state of one chunk (1 byte per cell, row-major within the chunk).
+type Chunk = {
+  revealed: Uint8Array;
+  flagged: Uint8Array;
+};
+
+// Deterministic mine layout, generated chunk by chunk on demand.
+type MineField = {
+  seed: number;
+  minesPerChunk: number;
+  chunks: Map<string, Uint8Array>;
+};
+
+export type EndlessState = {
+  config: EndlessConfig;
+  chunks: ReadonlyMap<string, Chunk>;   // only chunks the player has changed
+  mines: MineField;
+  score: number;                        // safe cells revealed
+  flags: number;                        // flags placed
+  gameOver: null | "lost";
+  hitMine: { r: number; c: number } | null;
+  pending: ReadonlyArray<[number, number]>; // flood fill left over for the next "continue"
+};
+
+export type EndlessAction =
+  | { type: "reveal"; r: number; c: number }
+  | { type: "flag"; r: number; c: number }    // toggle flag on a covered cell
+  | { type: "chord"; r: number; c: number }   // open unflagged neighbors of a satisfied number
+  | { type: "continue" }                       // resume a flood fill that hit MAX_FLOOD_CELLS
+  | { type: "reset"; config?: Partial<EndlessConfig> };
+
+const chunkKey = (cr: number, cc: number) => `${cr},${cc}`;
+
+// Chunk coordinates and in-chunk index of a world cell.
+function locate(r: number, c: number) {
+  const cr = Math.floor(r / CHUNK_SIZE);
+  const cc = Math.floor(c / CHUNK_SIZE);
+  return { key: chunkKey(cr, cc), cr, cc, i: (r - cr * CHUNK_SIZE) * CHUNK_SIZE + (c - cc * CHUNK_SIZE) };
+}
+
+// Generate (or fetch) the mine layout of chunk (cr, cc). Each chunk has its own random
+// stream derived from the seed and its coordinates, so the order chunks are visited in
+// does not matter.
+function chunkMines(field: MineField, cr: number, cc: number): Uint8Array {
+  const key = chunkKey(cr, cc);
+  const cached = field.chunks.get(key);
+  if (cached) return cached;
+
+  const mines = new Uint8Array(CHUNK_CELLS);
+  const rng = createRng(deriveSeed(deriveSeed(field.seed, cr), cc));
+  let placed = 0;
+  while (placed < field.minesPerChunk) {
+    const i = randomInt(rng, CHUNK_CELLS);
+    const r = cr * CHUNK_SIZE + Math.floor(i / CHUNK_SIZE);
+    const c = cc * CHUNK_SIZE + (i % CHUNK_SIZE);
+    if (Math.abs(r) <= SAFE_RADIUS && Math.abs(c) <= SAFE_RADIUS) continue;
+    if (!mines[i]) {
+      mines[i] = 1;
+      placed++;
+    }
+  }
+  field.chunks.set(key, mines);
+  return mines;
+}
+
+/**
+ * Function: isMineAt(state, r, c)
+ * Purpose: Whether world cell (r, c) holds a mine (generating its chunk if needed).
+ */
+export function isMineAt(state: EndlessState, r: number, c: number): boolean {
+  const { cr, cc, i } = locate(r, c);
+  return chunkMines(state.mines, cr, cc)[i] === 1;
+}
+
+/**
+ * Function: adjacentAt(state, r, c)
+ * Purpose: Number of mines among the 8 neighbors of (r, c), across chunk borders.
+ */
+export function adjacentAt(state: EndlessState, r: number, c: number): number {
+  let count = 0;
+  for (const [nr, nc] of neighborsOf(r, c)) if (isMineAt(state, nr, nc)) count++;
+  return count;
+}
+
+export function isRevealedAt(state: EndlessState, r: number, c: number): boolean {
+  const { key, i } = locate(r, c);
+  return state.chunks.get(key)?.revealed[i] === 1;
+}
+
+export function isFlaggedAt(state: EndlessState, r: number, c: number): boolean {
+  const { key, i } = locate(r, c);
+  return state.chunks.get(key)?.flagged[i] === 1;
+}
+
+// The 8 surrounding cells; the plane has no edges, so every cell has all of them.
+const OFFSETS = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]] as const;
+
+function neighborsOf(r: number, c: number): Array<[number, number]> {
+  return OFFSETS.map(([dr, dc]) => [r + dr, c + dc]);
+}
+
+/**
+ * Function: createEndless(config)
+ * Purpose: Start an endless game with the safe area around the origin already opened.
+ */
+export function createEndless(config: EndlessConfig): EndlessState {
+  const state: EndlessState = {
+    config,
+    chunks: new Map(),
+    mines: {
+      seed: config.seed,
+      minesPerChunk: Math.round(CHUNK_CELLS * config.density),
+      chunks: new Map(),
+    },
+    score: 0,
+    flags: 0,
+    gameOver: null,
+    hitMine: null,
+    pending: [],
+  };
+  return reveal(state, 0, 0);
+}
+
+/**
+ * Function: applyEndlessAction(state, action)
+ * Purpose: Single entry point for the endless rules (mirrors `applyAction` in engine.ts).
+ */
+export function applyEndlessAction(state: EndlessState, action: EndlessAction): EndlessState {
+  switch (action.type) {
+    case "reset":
+      return createEndless({ ...state.config, ...action.config });
+    case "reveal":
+      return reveal(state, action.r, action.c);
+    case "flag":
+      return toggleFlag(state, action.r, action.c);
+    case "chord":
+      return chord(state, action.r, action.c);
+    case "continue":
+      return state.pending.length === 0 || state.gameOver ? state : openCells(state, []);
+  }
+}
+
+// Copy-on-write access to chunks during one action: each chunk is copied at most once.
+function editor(state: EndlessState) {
+  const chunks = new Map(state.chunks);
+  const copied = new Set<string>();
+  const chunkFor = (r: number, c: number) => {
+    const { key, i } = locate(r, c);
+    let chunk = chunks.get(key);
+    if (!chunk) {
+      chunk = { revealed: new Uint8Array(CHUNK_CELLS), flagged: new Uint8Array(CHUNK_CELLS) };
+    } else if (!copied.has(key)) {
+      chunk = { revealed: chunk.revealed.slice(), flagged: chunk.flagged.slice() };
+    }
+    if (!copied.has(key)) {
+      chunks.set(key, chunk);
+      copied.add(key);
+    }
+    return { chunk, i };
+  };
+  return { chunks, chunkFor };
+}
+
+// Reveal from each start cell, flooding through 0-cells; a mine ends the game.
+// A flood fill still pending from an earlier action is carried on first.
+function openCells(state: EndlessState, starts: Array<[number, number]>): EndlessState {
+  const { chunks, chunkFor } = editor(state);
+  const view = { ...state, chunks };
+  let score = state.score;
+  let opened = 0;
+
+  const stack = [...state.pending, ...starts];
+  while (stack.length > 0 && opened < MAX_FLOOD_CELLS) {
+    const [r, c] = stack.pop()!;
+    if (isRevealedAt(view, r, c) || isFlaggedAt(view, r, c)) continue;
+
+    const { chunk, i } = chunkFor(r, c);
+    chunk.revealed[i] = 1;
+    if (isMineAt(state, r, c)) {
+      return { ...state, chunks, score, gameOver: "lost", hitMine: { r, c }, pending: [] };
+    }
+    score++;
+    opened++;
+
+    if (adjacentAt(state, r, c) === 0) {
+      for (const [nr, nc] of neighborsOf(r, c)) {
+        if (!isRevealedAt(view, nr, nc)) stack.push([nr, nc]);
+      }
+    }
+  }
+  return { ...state, chunks, score, pending: stack };
+}
+
+function reveal(state: EndlessState, r: number, c: number): EndlessState {
+  if (state.gameOver || isRevealedAt(state, r, c) || isFlaggedAt(state, r, c)) return state;
+  return openCells(state, [[r, c]]);
+}
+
+function toggleFlag(state: EndlessState, r: number, c: number): EndlessState {
+  if (state.gameOver || isRevealedAt(state, r, c)) return state;
+  const { chunks, chunkFor } = editor(state);
+  const { chunk, i } = chunkFor(r, c);
+  chunk.flagged[i] = chunk.flagged[i] ? 0 : 1;
+  return { ...state, chunks, flags: state.flags + (chunk.flagged[i] ? 1 : -1) };
+}
+
+function chord(state: EndlessState, r: number, c: number): EndlessState {
+  if (state.gameOver || !isRevealedAt(state, r, c)) return state;
+  const adjacent = adjacentAt(state, r, c);
+  if (adjacent === 0) return state;
+
+  const around = neighborsOf(r, c);
+  const flagged = around.filter(([nr, nc]) => isFlaggedAt(state, nr, nc)).length;
+  if (flagged !== adjacent) return state; // only a satisfied number can be chorded
+
+  const targets = around.filter(([nr, nc]) => !isRevealedAt(state, nr, nc) && !isFlaggedAt(state, nr, nc));
+  if (targets.length === 0) return state;
+  return openCells(state, targets);
+}
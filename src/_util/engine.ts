@@ -0,0 +1,317 @@
+/**
+ * File: src/_util/engine.ts
+ * Module: Game Logic – Rules Engine
+ * Brief: Framework-free Minesweeper rules. A `GameState` value plus `applyAction(state, action)`
+ *        covers everything a move can do (first-click mine placement, reveal, flag, chord,
+ *        win/loss detection, reset). The page, the AIs and the hint all dispatch into it,
+ *        and it runs headless in Node.
+ *
+ * Inputs:
+ *   - GameState (previous state) and a GameAction.
+ * Outputs:
+ *   - A new GameState. Invalid or no-op actions return the same state object unchanged.
+ *
+ * Side Effects:
+ *   - None; the input state is never mutated. Rules run on the typed-array store
+ *     (see compactBoard.ts): a move writes into a copy of it, then only the cells it
+ *     wrote are copied into the `Cell[][]` board, so consecutive states share untouched rows.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-12
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { CompactBoard } from "./compactBoard";
+import type { Cell } from "./grid";
+import {
+  adjacentAt,
+  cloneCompact,
+  commitToCells,
+  computeAdjacencyCompact,
+  createCompactBoard,
+  flagCountAt,
+  floodFillCompact,
+  fromCells,
+  indexAt,
+  isFlaggedAt,
+  isMineAt,
+  isQuestionedAt,
+  isRevealedAt,
+  mineCountAt,
+  placeMinesCompact,
+  setFlagCount,
+  setQuestioned,
+  setRevealed,
+  toCells,
+} from "./compactBoard";
+import { MAX_MINES_PER_CELL, createEmptyBoard, cloneBoard } from "./grid";
+import { neighborTable } from "./neighborTable";
+import type { Distribution } from "./distribution";
+import type { FirstClickPolicy } from "./firstClick";
+import type { NeighborhoodKind, Topology, TopologyKind } from "./topology";
+import { placeMinesNoGuess } from "./noGuess";
+import { createRng } from "./rng";
+import { boardShape, coordAt, getTopology } from "./topology";
+
+export type GameConfig = {
+  rows: number;
+  cols: number;
+  mines: number;
+  seed: number;      // mines are placed with createRng(seed) on the first reveal
+  noGuess: boolean;  // generate a layout solvable without guessing (classic rules only)
+  multiMine: boolean; // variant: a cell can hold 1–MAX_MINES_PER_CELL mines; flags carry a count
+  topology: TopologyKind; // which cells neighbor each other (square, hex, …)
+  neighborhood: NeighborhoodKind; // neighborhood shape on square/torus boards (3×3, knight, …)
+  layers: number;    // 3D boards: layers stacked in `rows` (rows = layers × rows per layer); 1 = flat
+  firstClick: FirstClickPolicy; // what the first click is guaranteed (an opening, a safe cell, …)
+  distribution: Distribution; // where mines tend to go (uniform, clustered, a pattern, …)
+};
+
+export type GameState = {
+  config: GameConfig;
+  board: Cell[][];                   // cell objects for rendering and stats; mirrors `store`
+  store: CompactBoard;               // what the rules read and write; never mutated once in a state
+  started: boolean;                  // has the first reveal (and mine placement) happened?
+  gameOver: null | "lost" | "won";
+  flagsLeft: number;                 // mines − placed flags (summing flag counts)
+  noGuessFallback: boolean;          // no-guess was requested but a standard layout was used
+};
+
+export type GameAction =
+  | { type: "reveal"; r: number; c: number }
+  | { type: "flag"; r: number; c: number; count?: number } // toggle/cycle a flag, or set exactly `count`
+  | { type: "mark"; r: number; c: number }    // cycle covered → flag(s) → "?" → covered
+  | { type: "chord"; r: number; c: number }   // open all unflagged neighbors of a satisfied number
+  | { type: "reset"; config?: Partial<GameConfig> }
+  | { type: "load"; board: Cell[][]; config?: Partial<GameConfig> }; // resume a saved/shared position
+
+/**
+ * Function: createGame(config)
+ * Purpose: Build the initial (unstarted) state for a configuration.
+ */
+export function createGame(config: GameConfig): GameState {
+  return {
+    config,
+    board: createEmptyBoard(config.rows, config.cols),
+    store: createCompactBoard(config.rows, config.cols),
+    started: false,
+    gameOver: null,
+    flagsLeft: config.mines,
+    noGuessFallback: false,
+  };
+}
+
+/**
+ * Function: topologyOf(config)
+ * Purpose: The topology a configuration plays on (kind, neighborhood and layers together).
+ * Notes:
+ *   - Configs recorded before layered boards existed have no `layers`; they are flat.
+ */
+export function topologyOf(config: Pick<GameConfig, "topology" | "neighborhood" | "layers">): Topology {
+  return getTopology(config.topology, config.neighborhood, config.layers ?? 1);
+}
+
+/**
+ * Function: shapeOf(config)
+ * Purpose: The board shape a configuration plays on (its `rows` stack every layer's rows).
+ */
+export function shapeOf(config: Pick<GameConfig, "rows" | "cols" | "layers">) {
+  return boardShape(config.rows, config.cols, config.layers ?? 1);
+}
+
+/**
+ * Function: minesPerCell(config)
+ * Purpose: Most mines (and flags) one cell can hold under the configured ruleset.
+ */
+export function minesPerCell(config: Pick<GameConfig, "multiMine">): number {
+  return config.multiMine ? MAX_MINES_PER_CELL : 1;
+}
+
+/**
+ * Function: checkWin(store)
+ * Purpose: Win condition – every safe cell revealed and every mined cell (however many
+ *          mines it holds) still covered. Flags are not required.
+ */
+export function checkWin(store: CompactBoard): boolean {
+  for (let i = 0; i < store.bits.length; i++) {
+    if (isMineAt(store, i) === isRevealedAt(store, i)) return false;
+  }
+  return true;
+}
+
+/**
+ * Function: applyAction(state, action)
+ * Purpose: Single entry point for every rule of the game.
+ * Inputs:
+ *   - state: GameState
+ *   - action: GameAction
+ * Outputs:
+ *   - Returns the next GameState (or `state` itself when the action does nothing).
+ */
+export function applyAction(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case "reset":
+      return createGame({ ...state.config, ...action.config });
+    case "reveal":
+      return reveal(state, action.r, action.c);
+    case "flag":
+      return toggleFlag(state, action.r, action.c, action.count);
+    case "mark":
+      return cycleMark(state, action.r, action.c);
+    case "chord":
+      return chord(state, action.r, action.c);
+    case "load":
+      return loadBoard(state, action.board, action.config);
+  }
+}
+
+// Adopt an existing layout (e.g. from a board code). A board with mines counts as started;
+// its mine count replaces the configured one and the outcome is re-derived from the cells.
+function loadBoard(state: GameState, board: Cell[][], config?: Partial<GameConfig>): GameState {
+  const next = cloneBoard(board);
+  const cells = next.flat();
+  const store = fromCells(next);
+  const mines = totalMines(store);
+  const loaded = {
+    ...createGame({ ...state.config, ...config, rows: next.length, cols: next[0].length, mines }),
+    board: next,
+    store,
+    started: mines > 0,
+    flagsLeft: mines - totalFlags(store),
+  };
+  if (cells.some(c0 => c0.isMine && c0.revealed)) return { ...loaded, gameOver: "lost" };
+  if (loaded.started && checkWin(store)) return { ...loaded, gameOver: "won" };
+  return loaded;
+}
+
+// Lay out mines around the first click (honoring no-guess and the first-click policy). Flags and
+// "?" marks placed before the click are kept.
+function startGame(state: GameState, r: number, c: number): GameState {
+  const { mines, seed, noGuess, multiMine, firstClick, distribution } = state.config;
+  const topology = topologyOf(state.config);
+  const rng = createRng(seed);
+  // The no-guess solver reasons about one mine per cell (on Cell[][]), so it only applies to classic rules.
+  if (noGuess && !multiMine) {
+    const board = cloneBoard(state.board);
+    const noGuessFallback = !placeMinesNoGuess(board, mines, { r, c }, rng, topology, { firstClick, distribution });
+    return { ...state, board, store: fromCells(board), started: true, noGuessFallback };
+  }
+  const store = cloneCompact(state.store);
+  placeMinesCompact(store, mines, { r, c }, rng, topology, minesPerCell(state.config), firstClick, distribution);
+  computeAdjacencyCompact(store, topology);
+  return { ...state, board: toCells(store), store, started: true, noGuessFallback: false };
+}
+
+// End the game with every mine revealed (on loss, and post-win to show the final state).
+// `store` is the move's copy of the state's store; only rows with a newly shown cell are copied.
+function finish(state: GameState, store: CompactBoard, gameOver: "lost" | "won"): GameState {
+  for (let i = 0; i < store.bits.length; i++) {
+    if (isMineAt(store, i) && !isRevealedAt(store, i)) setRevealed(store, i);
+  }
+  return { ...state, board: commitToCells(store, state.board), store, gameOver };
+}
+
+// Finish a move written into `store`: detect the win and return the new state.
+function settle(state: GameState, store: CompactBoard): GameState {
+  if (checkWin(store)) return finish(state, store, "won");
+  return { ...state, board: commitToCells(store, state.board), store };
+}
+
+function lose(state: GameState): GameState {
+  return finish(state, cloneCompact(state.store), "lost");
+}
+
+function reveal(state: GameState, r: number, c: number): GameState {
+  if (state.gameOver) return state;
+  const i = indexAt(state.store, r, c);
+  if (i < 0 || isRevealedAt(state.store, i) || isFlaggedAt(state.store, i)) return state; // flags block uncover
+
+  let next = state;
+  if (!next.started) next = startGame(state, r, c);
+
+  if (isMineAt(next.store, i)) return lose(next);
+
+  // Flood-fill handles zero-adjacent expansion; only the rows it opens cells in are copied.
+  const store = cloneCompact(next.store);
+  floodFillCompact(store, coordAt(shapeOf(next.config), i), topologyOf(next.config));
+  return settle(next, store);
+}
+
+// Without `count`: classic rules toggle the flag; multi-mine rules cycle 0 → 1 → … → max → 0.
+function toggleFlag(state: GameState, r: number, c: number, count?: number): GameState {
+  if (state.gameOver) return state;
+  const i = indexAt(state.store, r, c);
+  if (i < 0 || isRevealedAt(state.store, i)) return state; // cannot flag an already revealed cell
+
+  const max = minesPerCell(state.config);
+  const current = flagCountAt(state.store, i);
+  const flags = count === undefined
+    ? (current + 1) % (max + 1)
+    : Math.max(0, Math.min(max, Math.floor(count)));
+  if (flags === current && !isQuestionedAt(state.store, i)) return state;
+
+  const store = cloneCompact(state.store);
+  setFlagCount(store, i, flags);   // also clears "?"
+  return withFlags(state, store);
+}
+
+function cycleMark(state: GameState, r: number, c: number): GameState {
+  if (state.gameOver) return state;
+  const i = indexAt(state.store, r, c);
+  if (i < 0 || isRevealedAt(state.store, i)) return state;
+
+  const store = cloneCompact(state.store);
+  const flags = flagCountAt(store, i);
+  if (flags >= minesPerCell(state.config)) {
+    setFlagCount(store, i, 0);
+    setQuestioned(store, i, true);
+  } else if (isQuestionedAt(store, i)) {
+    setQuestioned(store, i, false);
+  } else {
+    setFlagCount(store, i, flags + 1);
+  }
+  return withFlags(state, store);
+}
+
+function totalMines(store: CompactBoard): number {
+  let total = 0;
+  for (let i = 0; i < store.bits.length; i++) total += mineCountAt(store, i);
+  return total;
+}
+
+function totalFlags(store: CompactBoard): number {
+  let total = 0;
+  for (let i = 0; i < store.bits.length; i++) total += flagCountAt(store, i);
+  return total;
+}
+
+// Recompute remaining flags from truth to keep counters consistent ("?" marks are not flags).
+function withFlags(state: GameState, store: CompactBoard): GameState {
+  const flagsLeft = state.config.mines - totalFlags(store);
+  return settle({ ...state, flagsLeft }, store);
+}
+
+function chord(state: GameState, r: number, c: number): GameState {
+  if (state.gameOver || !state.started) return state;
+  const { store } = state;
+  const i = indexAt(store, r, c);
+  if (i < 0 || !isRevealedAt(store, i) || adjacentAt(store, i) <= 0) return state;
+
+  const topology = topologyOf(state.config);
+  const { start, list } = neighborTable(topology, store.rows, store.cols);
+  const around = Array.from({ length: start[i + 1] - start[i] }, (_, k) => list[start[i] + k]);
+  const flagged = around.reduce((n, j) => n + flagCountAt(store, j), 0);
+  if (flagged !== adjacentAt(store, i)) return state; // only a satisfied number can be chorded
+
+  const targets = around.filter(j => !isRevealedAt(store, j) && !isFlaggedAt(store, j));
+  if (targets.length === 0) return state;
+
+  // A wrong flag means one of the opened neighbors is a mine: the chord loses.
+  if (targets.some(j => isMineAt(store, j))) return lose(state);
+
+  const next = cloneCompact(store);
+  for (const j of targets) floodFillCompact(next, coordAt(shapeOf(state.config), j), topology);
+  return settle(state, next);
+}
@@ -0,0 +1,116 @@
+/**
+ * File: src/_util/firstClick.ts
+ * Module: Game Logic – First-Click Safety
+ * Brief: How much of the board around the first click is kept free of mines. Mine placement
+ *        (`placeMines`, no-guess generation) leaves the policy's zone
+ *        empty, and everything that makes a first move goes through the engine, so the
+ *        player, the AIs and the hint all get the same protection.
+ *
+ * Inputs:
+ *   - A FirstClickPolicy, the board topology and size, and the first-click position.
+ * Outputs:
+ *   - The set of cell indices (r * cols + c) that must not hold mines.
+ *
+ * Side Effects:
+ *   - None.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-15
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { Topology } from "./topology";
+
+export type FirstClickPolicy =
+  | { kind: "opening" }                    // the click and its neighbors: always a 0 (the original rule)
+  | { kind: "safe" }                       // only the clicked cell (classic Windows rule)
+  | { kind: "none" }                       // no protection; the first click can lose
+  | { kind: "minOpening"; cells: number }; // the first click opens at least `cells` cells
+
+export type FirstClickKind = FirstClickPolicy["kind"];
+
+export const DEFAULT_FIRST_CLICK: FirstClickPolicy = { kind: "opening" };
+
+// Labels for the first-click selector.
+export const FIRST_CLICK_LABELS: Record<FirstClickKind, string> = {
+  opening: "Opening",
+  safe: "Safe cell only",
+  none: "No protection",
+  minOpening: "Opening of at least…",
+};
+
+/**
+ * Function: isFirstClickSafe(policy)
+ * Purpose: Whether any cell is known to be safe before the first click.
+ */
+export function isFirstClickSafe(policy: FirstClickPolicy): boolean {
+  return policy.kind !== "none";
+}
+
+/**
+ * Function: firstClickZone(policy, topology, rows, cols, r, c)
+ * Purpose: Cells that must stay mine-free for a first click at (r, c).
+ * Notes:
+ *   - "minOpening" grows a region breadth-first from the click, keeping each region cell and
+ *     all of its neighbors clear. Every region cell is then a connected 0, so the flood fill
+ *     opens the whole zone; growth stops once the zone holds `cells` cells (or the board).
+ */
+export function firstClickZone(
+  policy: FirstClickPolicy,
+  topology: Topology,
+  rows: number,
+  cols: number,
+  r: number,
+  c: number,
+): Set<number> {
+  const zone = new Set<number>();
+  if (policy.kind === "none") return zone;
+  zone.add(r * cols + c);
+  if (policy.kind === "safe") return zone;
+
+  const target = policy.kind === "minOpening" ? policy.cells : 0;
+  const visited = new Set<number>([r * cols + c]);
+  const queue: Array<[number, number]> = [[r, c]];
+  for (let head = 0; head < queue.length; head++) {
+    const [qr, qc] = queue[head];
+    for (const [nr, nc] of topology.neighbors(rows, cols, qr, qc)) {
+      zone.add(nr * cols + nc);
+      if (!visited.has(nr * cols + nc)) {
+        visited.add(nr * cols + nc);
+        queue.push([nr, nc]);
+      }
+    }
+    if (zone.size >= target) break;   // "opening": stop after the click's own neighbors
+  }
+  return zone;
+}
+
+/**
+ * Function: maxZoneSize(policy, topology, rows, cols)
+ * Purpose: The most cells `firstClickZone` keeps clear for any click on the board, without
+ *          growing a zone around every cell (cheap enough to run on every keystroke).
+ * Notes:
+ *   - The largest neighbor count is taken from the centre cell of the middle layer (the most
+ *     interior cell) and its neighbors, which cover row parity (hex boards).
+ *   - "minOpening" stops growing once the zone holds `cells`, and the cell it last grew from
+ *     adds at most one neighbor count, so the zone never exceeds max(1, cells − 1) + that
+ *     count. It can exceed the true maximum by up to one neighbor count, which only makes
+ *     mine limits more cautious.
+ */
+export function maxZoneSize(policy: FirstClickPolicy, topology: Topology, rows: number, cols: number): number {
+  if (policy.kind === "none") return 0;
+  if (policy.kind === "safe") return 1;
+
+  const layerRows = rows / topology.layers;
+  const mid = Math.floor((topology.layers - 1) / 2) * layerRows + Math.floor(layerRows / 2);
+  const center = Math.floor(cols / 2);
+  let degree = 0;
+  for (const [r, c] of [[mid, center], ...topology.neighbors(rows, cols, mid, center)]) {
+    degree = Math.max(degree, topology.neighbors(rows, cols, r, c).length);
+  }
+
+  const target = policy.kind === "minOpening" ? policy.cells : 0;
+  return Math.min(rows * cols, Math.max(1, target - 1) + degree);
+}
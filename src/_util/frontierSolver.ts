@@ -0,0 +1,467 @@
+/**
+ * File: src/_util/frontierSolver.ts
+ * Module: Game Logic – Frontier Constraint Solver
+ * Brief: Exact reasoning about the covered cells next to revealed numbers (the "frontier").
+ *        Each number is a constraint on its covered neighbors; cells touched by exactly the
+ *        same numbers are grouped, the groups are split into independent components, and every
+ *        consistent mine assignment of each component is enumerated. Combining the components
+ *        with the global remaining-mine count gives every certain safe cell, every certain mine,
+ *        and the chance that each covered cell holds a mine. Local rules such as 1-2-1 are all
+ *        special cases of this search.
+ *
+ * Inputs:
+ *   - A PlayerView: revealed numbers, flags, the mine count and per-cell capacity (covered
+ *     mines are not part of it).
+ * Outputs:
+ *   - A FrontierAnalysis: certain safe cells, certain mines (with their counts), probabilities.
+ *
+ * Side Effects:
+ *   - None.
+ *
+ * External Sources / Attribution:
+ *   - The component split, enumeration and weighting by the ways to place the remaining mines
+ *     off the frontier follow the usual constraint-satisfaction approach to Minesweeper.
+ *
+ * Creation Date: 2025-10-16
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { PlayerView } from "./playerView";
+import type { Rng } from "./rng";
+import { COVERED, unknownAt } from "./playerView";
+import { createRng, randomInt } from "./rng";
+
+export type FrontierAnalysis = {
+  consistent: boolean;           // some mine layout fits every number, flag and the mine count
+  exact: boolean;                // false when a component was too large to enumerate in full
+  safe: number[];                // covered, unflagged cells that certainly hold no mine
+  mines: Map<number, number>;    // covered, unflagged cells that certainly hold mines → how many
+  probability: Float64Array;     // chance each covered, unflagged cell holds a mine; −1 elsewhere
+};
+
+// Search steps allowed per component before it is sampled instead of enumerated.
+export const NODE_BUDGET = 200_000;
+
+// Random assignments drawn from a component too large to enumerate (within the same budget).
+const SAMPLES = 500;
+// Fixed seed for sampling, so the same position always gets the same estimate (and AI moves
+// stay reproducible from the game seed).
+const SAMPLE_SEED = 0x5eed;
+
+// Covered cells touched by exactly the same numbers: they are interchangeable, so the search
+// only decides how many mines the group holds.
+type Group = { cells: number[]; constraints: number[] };
+
+// A revealed number: its covered, unflagged neighbors (as groups) hold exactly `target` mines.
+type Constraint = { groups: number[]; target: number };
+
+// Per mine total of one component: summed weights of the assignments with that many mines,
+// the weighted chance of a mine in each group, and the range of mines each group took.
+type Tally = { weight: number; hit: Float64Array; least: Int32Array; most: Int32Array };
+
+type Component = {
+  groups: number[];
+  tallies: Map<number, Tally>;   // keyed by the component's mine total
+  sampled: boolean;              // tallies come from random assignments, not all of them
+  estimate: Float64Array | null; // per-group mine chance when not even a sample was found
+};
+
+/**
+ * Function: analyzeFrontier(view, budget)
+ * Purpose: Everything the visible numbers, flags and mine count imply about the covered cells.
+ * Notes:
+ *   - Assignments are weighted by how many mine layouts they stand for, counting every way to
+ *     place the remaining mines on cells away from the frontier. On multi-mine boards a cell is
+ *     treated as `perCell` interchangeable slots; that weighting is approximate there, but the
+ *     certain moves are exact either way.
+ *   - Flags are trusted. Wrong flags can make the board inconsistent (`consistent: false`).
+ *   - A component that exceeds the search budget (`budget` steps) is sampled instead: its
+ *     chances are estimates, it only yields single-number certainties, and global-count
+ *     certainties are skipped (`exact: false`). A smaller budget trades accuracy for speed.
+ */
+export function analyzeFrontier(view: PlayerView, budget = NODE_BUDGET): FrontierAnalysis {
+  const { perCell, flags } = view;
+  const cells = view.rows * view.cols;
+  const { start, list } = view.neighbors;
+  const unknown = (i: number) => unknownAt(view, i);
+  const probability = new Float64Array(cells).fill(-1);
+  const safe: number[] = [];
+  const mines = new Map<number, number>();
+
+  // ---- Constraints from revealed numbers ----
+  let remaining = view.mines;
+  let consistent = true;
+  const clues: Array<{ hidden: number[]; target: number }> = [];
+  for (let i = 0; i < cells; i++) {
+    remaining -= flags[i];
+    const adjacent = view.numbers[i];
+    if (adjacent === COVERED) continue;
+
+    const hidden: number[] = [];
+    let flagged = 0;
+    for (let k = start[i]; k < start[i + 1]; k++) {
+      const n = list[k];
+      flagged += flags[n];
+      if (unknown(n)) hidden.push(n);
+    }
+    const target = adjacent - flagged;
+    if (target < 0 || target > hidden.length * perCell) consistent = false;
+    else if (hidden.length > 0) clues.push({ hidden, target });
+  }
+
+  const covered: number[] = [];
+  for (let i = 0; i < cells; i++) if (unknown(i)) covered.push(i);
+  // No layout fits (usually because of a wrong flag): no certainties, just the overall density.
+  const contradiction = (): FrontierAnalysis => {
+    const density = Math.min(1, Math.max(0, remaining / Math.max(1, covered.length * perCell)));
+    for (const i of covered) probability[i] = density;
+    return { consistent: false, exact: true, safe, mines, probability };
+  };
+  if (!consistent || remaining < 0 || remaining > covered.length * perCell) return contradiction();
+
+  // ---- Group interchangeable cells ----
+  const touching = new Map<number, number[]>();
+  clues.forEach(({ hidden }, id) => {
+    for (const h of hidden) {
+      const ids = touching.get(h);
+      if (ids) ids.push(id); else touching.set(h, [id]);
+    }
+  });
+  const groups: Group[] = [];
+  const groupByKey = new Map<string, number>();
+  for (const [cell, ids] of touching) {
+    const key = ids.join(",");
+    const g = groupByKey.get(key);
+    if (g !== undefined) groups[g].cells.push(cell);
+    else {
+      groupByKey.set(key, groups.length);
+      groups.push({ cells: [cell], constraints: ids });
+    }
+  }
+  const constraints: Constraint[] = clues.map(({ target }) => ({ groups: [], target }));
+  groups.forEach((g, gi) => g.constraints.forEach(id => constraints[id].groups.push(gi)));
+  const capacity = (g: number) => groups[g].cells.length * perCell;
+
+  // ---- Independent components (groups linked through shared numbers) ----
+  // Collected breadth-first through the numbers, so neighboring groups are decided one after
+  // another and contradictions surface early in the search.
+  const members: number[][] = [];
+  const seen = new Uint8Array(groups.length);
+  for (let g0 = 0; g0 < groups.length; g0++) {
+    if (seen[g0]) continue;
+    const order = [g0];
+    seen[g0] = 1;
+    for (let head = 0; head < order.length; head++) {
+      for (const id of groups[order[head]].constraints) {
+        for (const g of constraints[id].groups) {
+          if (!seen[g]) { seen[g] = 1; order.push(g); }
+        }
+      }
+    }
+    members.push(order);
+  }
+
+  const components: Component[] = [];
+  for (const order of members) {
+    const component = enumerate(order, groups, constraints, capacity, perCell, budget);
+    if (component.tallies.size === 0 && !component.estimate) return contradiction();
+    components.push(component);
+  }
+
+  // ---- Combine components with the cells off the frontier ----
+  const exact = components.every(c => !c.sampled && !c.estimate);
+  const offFrontier = covered.filter(i => !touching.has(i));
+  const offSlots = offFrontier.length * perCell;
+  const lf = logFactorials(Math.max(offSlots, 1));
+
+  // Estimated components keep their expected mines out of the count the others share.
+  let shared = remaining;
+  for (const c of components) {
+    if (!c.estimate) continue;
+    c.groups.forEach((g, j) => { shared -= c.estimate![j] * capacity(g); });
+  }
+  shared = Math.round(shared);
+  const solved = components.filter(c => !c.estimate);
+
+  // Per component: weights and feasibility by mine total (weights scaled to a max of 1).
+  const dists = solved.map(c => spread(c.tallies, t => t.weight));
+  const feasible = solved.map(c => spread(c.tallies, () => 1));
+  const frontierMost = dists.reduce((n, d) => n + d.length - 1, 0);
+
+  // Weight and feasibility of putting the rest off the frontier, by frontier mine total.
+  const outLog = new Float64Array(frontierMost + 1).fill(-Infinity);
+  for (let t = 0; t <= frontierMost; t++) {
+    const u = shared - t;
+    if (u >= 0 && u <= offSlots) outLog[t] = logChoose(lf, offSlots, u);
+  }
+  const outMax = Math.max(...outLog);
+  const outside = outLog.map(v => (v === -Infinity ? 0 : Math.exp(v - outMax)));
+  const outsideOk = outLog.map(v => (v === -Infinity ? 0 : 1));
+
+  // Everything but component i, from prefix and suffix products.
+  const others = (arrays: Float64Array[], clamp: boolean) => {
+    const prefix: Float64Array[] = [Float64Array.of(1)];
+    for (const a of arrays) prefix.push(convolve(prefix[prefix.length - 1], a, clamp));
+    const suffix: Float64Array[] = [Float64Array.of(1)];
+    for (let i = arrays.length - 1; i >= 0; i--) suffix.unshift(convolve(arrays[i], suffix[0], clamp));
+    return { all: prefix[arrays.length], without: arrays.map((_, i) => convolve(prefix[i], suffix[i + 1], clamp)) };
+  };
+  const weights = others(dists, false);
+  const possible = others(feasible, true);
+
+  let anyFeasible = false;
+  for (let t = 0; t < possible.all.length; t++) if (possible.all[t] && outsideOk[t]) anyFeasible = true;
+  // The numbers fit, but not with this many mines left.
+  if (exact && !anyFeasible) return contradiction();
+
+  solved.forEach((c, ci) => {
+    const rest = weights.without[ci];
+    const restOk = possible.without[ci];
+    // Chance of each mine total for this component, and which totals can happen at all.
+    const marginal = new Map<number, number>();
+    const allowed = new Set<number>();
+    let total = 0;
+    for (const [m, tally] of c.tallies) {
+      let w = 0;
+      let ok = false;
+      for (let s = 0; s < rest.length && m + s < outside.length; s++) {
+        w += rest[s] * outside[m + s];
+        if (restOk[s] && outsideOk[m + s]) ok = true;
+      }
+      w *= tally.weight;
+      marginal.set(m, w);
+      total += w;
+      if (ok || !exact) allowed.add(m);   // only exact components' totals can be ruled out
+    }
+    // Everything underflowed: fall back to the allowed totals' own weights.
+    if (total === 0) {
+      for (const [m, tally] of c.tallies) if (allowed.has(m)) { marginal.set(m, tally.weight); total += tally.weight; }
+    }
+
+    c.groups.forEach((g, j) => {
+      let p = 0;
+      let least = Infinity;
+      let most = -Infinity;
+      for (const [m, tally] of c.tallies) {
+        if (total > 0) p += (marginal.get(m)! / total) * (tally.hit[j] / tally.weight);
+        if (!allowed.has(m)) continue;
+        least = Math.min(least, tally.least[j]);
+        most = Math.max(most, tally.most[j]);
+      }
+      if (c.sampled) settle(groups[g].cells, p, ...singleNumber(g));
+      else settle(groups[g].cells, p, least, most);
+    });
+  });
+
+  for (const c of components) {
+    if (!c.estimate) continue;
+    c.groups.forEach((g, j) => settle(groups[g].cells, c.estimate![j], ...singleNumber(g)));
+  }
+
+  // Off-frontier cells share one chance, averaged over the frontier mine totals.
+  if (offFrontier.length > 0) {
+    let total = 0;
+    let p = 0;
+    let least = Infinity;
+    let most = -Infinity;
+    for (let t = 0; t < weights.all.length && t < outside.length; t++) {
+      const w = weights.all[t] * outside[t];
+      const u = shared - t;
+      if (w > 0) {
+        total += w;
+        // Chance a given cell's slots are not all empty with u mines among offSlots slots.
+        const empty = u > offSlots - perCell ? 0 : Math.exp(logChoose(lf, offSlots - perCell, u) - logChoose(lf, offSlots, u));
+        p += w * (1 - empty);
+      }
+      if (possible.all[t] && outsideOk[t]) {
+        least = Math.min(least, u);
+        most = Math.max(most, u);
+      }
+    }
+    if (total === 0) p = Math.min(1, Math.max(0, shared / offSlots));
+    else p /= total;
+    // Without every component enumerated, the count off the frontier is only an estimate.
+    settle(offFrontier, p, exact ? least : NaN, exact ? most : NaN);
+  }
+
+  return { consistent: true, exact, safe, mines, probability };
+
+  // What one number alone fixes for a group: empty next to a satisfied number, full next to a
+  // number that needs every covered slot (the only certainties kept for sampled components).
+  function singleNumber(g: number): [number, number] {
+    const full = capacity(g);
+    for (const id of groups[g].constraints) {
+      const { target, groups: around } = constraints[id];
+      if (target === 0) return [0, 0];
+      if (target === around.reduce((n, h) => n + capacity(h), 0)) return [full, full];
+    }
+    return [NaN, NaN];
+  }
+
+  // Record a group's chance, and its certainty when its mine count never varies.
+  function settle(groupCells: number[], p: number, least: number, most: number) {
+    const full = groupCells.length * perCell;
+    for (const i of groupCells) {
+      probability[i] = Math.min(1, Math.max(0, p));
+      if (most === 0) safe.push(i);
+      else if (least === most && least === full) mines.set(i, perCell);
+      else if (least === most && groupCells.length === 1) mines.set(i, least);
+    }
+  }
+}
+
+// Enumerate every consistent assignment of one component, tallied by its mine total.
+function enumerate(
+  order: number[],
+  groups: Group[],
+  constraints: Constraint[],
+  capacity: (g: number) => number,
+  perCell: number,
+  budget: number,
+): Component {
+  const tallies = new Map<number, Tally>();
+  const size = order.length;
+  const position = new Map(order.map((g, j) => [g, j]));
+  // Per number: mines assigned so far, and room left in its undecided groups.
+  const sum = new Int32Array(constraints.length);
+  const slack = new Int32Array(constraints.length);
+  for (const g of order) for (const id of groups[g].constraints) slack[id] += capacity(g);
+  const value = new Int32Array(size);
+  let nodes = 0;
+
+  // Mines group g can take without breaking any of its numbers (given capacity `cap`).
+  const options = (g: number, cap: number) => {
+    let lo = 0;
+    let hi = cap;
+    for (const id of groups[g].constraints) {
+      const need = constraints[id].target - sum[id];
+      hi = Math.min(hi, need);
+      lo = Math.max(lo, need - (slack[id] - cap));
+    }
+    return Array.from({ length: Math.max(0, hi - lo + 1) }, (_, k) => lo + k);
+  };
+
+  // Depth-first over the groups. Exhaustive by default (false once over budget); with an rng,
+  // tries values in random order and stops at the first complete assignment (true if found).
+  const search = (j: number, mineTotal: number, weight: number, rng?: Rng): boolean => {
+    if (++nodes > budget) return false;
+    if (j === size) {
+      record(mineTotal, weight);
+      return true;
+    }
+    const g = order[j];
+    const cap = capacity(g);
+    const values = options(g, cap);
+    if (rng) shuffle(values, rng);
+    for (const id of groups[g].constraints) slack[id] -= cap;
+    let ok = !rng;
+    for (const v of values) {
+      value[j] = v;
+      for (const id of groups[g].constraints) sum[id] += v;
+      // A random step picks one of `values.length` options, so its assignment stands in for
+      // that many times as many (importance weighting, as in Knuth's tree-size estimate).
+      const fanOut = rng ? values.length : 1;
+      ok = search(j + 1, mineTotal + v, weight * choose(cap, v) * fanOut, rng);
+      for (const id of groups[g].constraints) sum[id] -= v;
+      if (ok === !!rng || nodes > budget) break;
+    }
+    for (const id of groups[g].constraints) slack[id] += cap;
+    return ok;
+  };
+
+  const record = (mineTotal: number, weight: number) => {
+    let tally = tallies.get(mineTotal);
+    if (!tally) {
+      tally = { weight: 0, hit: new Float64Array(size), least: new Int32Array(size).fill(1 << 30), most: new Int32Array(size).fill(-1) };
+      tallies.set(mineTotal, tally);
+    }
+    tally.weight += weight;
+    for (let j = 0; j < size; j++) {
+      const v = value[j];
+      tally.hit[j] += weight * hitChance(groups[order[j]].cells.length, v, perCell);
+      tally.least[j] = Math.min(tally.least[j], v);
+      tally.most[j] = Math.max(tally.most[j], v);
+    }
+  };
+
+  if (search(0, 0, 1)) return { groups: order, tallies, sampled: false, estimate: null };
+
+  // Too many assignments to list: sample random ones, each weighted by how many layouts it
+  // stands for (random value orders do not draw assignments evenly, so this is an estimate).
+  tallies.clear();
+  nodes = 0;
+  const rng = createRng(SAMPLE_SEED);
+  for (let k = 0; k < SAMPLES && nodes <= budget; k++) search(0, 0, 1, rng);
+  if (tallies.size > 0) return { groups: order, tallies, sampled: true, estimate: null };
+
+  // Not even one sample: estimate each group from the densest number around it.
+  const estimate = new Float64Array(size);
+  order.forEach(g => {
+    let p = 0;
+    for (const id of groups[g].constraints) {
+      const slots = constraints[id].groups.reduce((n, h) => n + capacity(h), 0);
+      p = Math.max(p, constraints[id].target / slots);
+    }
+    const zero = groups[g].constraints.some(id => constraints[id].target === 0);
+    estimate[position.get(g)!] = zero ? 0 : p;
+  });
+  return { groups: order, tallies: new Map(), sampled: false, estimate };
+}
+
+function shuffle(values: number[], rng: Rng) {
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1);
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+}
+
+// Chance that one particular cell of a `size`-cell group holds a mine when the group holds
+// `mines` mines spread over size × perCell slots.
+function hitChance(size: number, mines: number, perCell: number): number {
+  if (mines === 0) return 0;
+  if (perCell === 1) return mines / size;
+  return 1 - choose((size - 1) * perCell, mines) / choose(size * perCell, mines);
+}
+
+function choose(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  const small = Math.min(k, n - k);
+  let result = 1;
+  for (let i = 1; i <= small; i++) result = (result * (n - small + i)) / i;
+  return result;
+}
+
+// log(n!) for n = 0 … max, for binomials far too large for a double.
+function logFactorials(max: number): Float64Array {
+  const lf = new Float64Array(max + 1);
+  for (let n = 2; n <= max; n++) lf[n] = lf[n - 1] + Math.log(n);
+  return lf;
+}
+
+function logChoose(lf: Float64Array, n: number, k: number): number {
+  if (k < 0 || k > n) return -Infinity;
+  return lf[n] - lf[k] - lf[n - k];
+}
+
+// Tallies as an array indexed by mine total, scaled so the largest entry is 1.
+function spread(tallies: Map<number, Tally>, pick: (t: Tally) => number): Float64Array {
+  const out = new Float64Array(Math.max(0, ...tallies.keys()) + 1);
+  let max = 0;
+  for (const [m, t] of tallies) {
+    out[m] = pick(t);
+    max = Math.max(max, out[m]);
+  }
+  if (max > 0) for (let m = 0; m < out.length; m++) out[m] /= max;
+  return out;
+}
+
+// Polynomial product; with `clamp`, entries only record whether a total is reachable (0/1).
+function convolve(a: Float64Array, b: Float64Array, clamp: boolean): Float64Array {
+  const out = new Float64Array(a.length + b.length - 1);
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === 0) continue;
+    for (let j = 0; j < b.length; j++) out[i + j] += a[i] * b[j];
+  }
+  if (clamp) for (let t = 0; t < out.length; t++) out[t] = out[t] > 0 ? 1 : 0;
+  return out;
+}
@@ -3,7 +3,8 @@
  * Module: Game Logic – Board & Cell Utilities
  * Brief: Defines the Cell type and provides core helpers for Minesweeper:
  *        board creation, mine placement (with first-click safety exclusion),
- *        adjacency computation, flood-fill reveal, and immutable cloning.
+ *        adjacency computation, flood-fill reveal, immutable cloning, and the 3BV
+ *        difficulty metric.
  *
  * Inputs:
  *   - Function-specific inputs documented below (rows/cols, mine count, board, etc.)
@@ -18,24 +19,41 @@
 
  *
  * EECS 581 – Project 1 Compliance Notes:
- *   - Supports a fixed 10×10 grid at call-sites; user-selected mines 10–20.
+ *   - Supports rectangular rows×cols grids (10×10 at the original call-sites); user-selected mines 10–20.
  *   - First click safety: `placeMines` excludes the initially clicked cell and its neighbors.
- *   - `computeAdjacency` assigns 0–8 counts; `floodFill` expands when count is 0.
+ *   - `computeAdjacency` assigns 0–8 counts (0–6 on hex boards, up to 24 with a 5×5 neighborhood);
+ *     `floodFill` expands when count is 0.
+ *   - Neighborhoods come from a pluggable `Topology` (see topology.ts); the square grid is the default.
  *
 
  * Creation Date: 2025-09-09
  * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
  */
 
+import type { Distribution } from "./distribution";
+import type { FirstClickPolicy } from "./firstClick";
+import type { Rng } from "./rng";
+import type { BoardShape, Coord, Topology } from "./topology";
+import { UNIFORM, mineSampler } from "./distribution";
+import { DEFAULT_FIRST_CLICK, firstClickZone } from "./firstClick";
+import { SQUARE, boardShape, coordAt, fromCoord } from "./topology";
+
 export type Cell = {
   row: number;
   col: number;
   isMine: boolean;
-  adjacent: number;  // number of neighboring mines (0–8); -1 used here to mark a mine for convenience
+  mineCount: number; // mines in this cell: 0 when safe, 1 normally, up to MAX_MINES_PER_CELL on multi-mine boards
+  adjacent: number;  // number of neighboring mines (0–8 with the classic 3×3 neighborhood); -1 used here to mark a mine for convenience
   revealed: boolean;
   flagged: boolean;
+  flagCount: number; // flags placed on this cell (0–1 normally, up to MAX_MINES_PER_CELL on multi-mine boards)
+  questioned: boolean; // "?" annotation: purely a reminder; does not count as a flag or block reveal
 };
 
+// Upper bound on mines in one cell for the multi-mine variant (`isMine` ⇔ mineCount > 0,
+// `flagged` ⇔ flagCount > 0 in every ruleset).
+export const MAX_MINES_PER_CELL = 3;
+
 /**
  * Function: createEmptyBoard(rows, cols)  [Original]
  * Purpose: Create a rows×cols matrix of Cell objects initialized to a safe, covered state.
@@ -53,129 +71,186 @@ export function createEmptyBoard(rows: number, cols: number): Cell[][] {
       row: r,
       col: c,
       isMine: false,
+      mineCount: 0,
       adjacent: 0,
       revealed: false,
       flagged: false,
+      flagCount: 0,
+      questioned: false,
     }))
   );
 }
 
 /**
- * Function: placeMines(board, mines, exclude)  [Original]
+ * Function: gridShape(board, topology)
+ * Purpose: The shape `board` has under `topology` (its rows stack the topology's layers).
+ */
+export function gridShape(board: Cell[][], topology: Topology = SQUARE): BoardShape {
+  return boardShape(board.length, board[0].length, topology.layers);
+}
+
+/**
+ * Function: cellAt(board, shape, at)
+ * Purpose: The cell at a coordinate (see `Coord` in topology.ts).
+ */
+export function cellAt(board: Cell[][], shape: BoardShape, at: Coord): Cell {
+  const [r, c] = fromCoord(shape.rows, at);
+  return board[r][c];
+}
+
+/**
+ * Function: assertRoom(mines, freeCells, maxPerCell)
+ * Purpose: Fail fast when a mine count cannot be placed (shared with the compact store).
+ */
+export function assertRoom(mines: number, freeCells: number, maxPerCell: number) {
+  const capacity = freeCells * maxPerCell;
+  if (mines > capacity) {
+    throw new RangeError(`Cannot place ${mines} mines: only ${capacity} fit outside the first-click area`);
+  }
+}
+
+/**
+ * Function: placeMines(board, mines, exclude, rng, topology, maxPerCell, firstClick, distribution)  [Original]
  * Purpose: Randomly place the requested number of mines on the board while enforcing
- *          first-click safety by excluding the initial cell and its 8 neighbors.
+ *          first-click safety by keeping the policy's zone around the initial cell clear.
  * Inputs:
  *   - board: Cell[][] (will be mutated)
  *   - mines: number (requested count)
  *   - exclude: { r: number; c: number }  // the first-click position to exclude (and neighbors)
+ *   - rng: Rng (optional; defaults to Math.random). Pass `createRng(seed)` for a reproducible layout.
+ *   - topology: Topology (optional; defaults to the 8-neighbor square grid)
+ *   - maxPerCell: number (optional; defaults to 1). Above 1, a cell can be picked again and
+ *     hold several mines (multi-mine variant); `mines` is then the total across all cells.
+ *   - firstClick: FirstClickPolicy (optional; defaults to excluding the cell and its neighbors)
+ *   - distribution: Distribution (optional; defaults to uniform). Decides which cells are
+ *     proposed for mines; see distribution.ts.
  * Outputs:
- *   - None (mutates `board` in place, setting `isMine=true` on chosen cells).
+ *   - None (mutates `board` in place, setting `isMine=true` and `mineCount` on chosen cells).
  * Notes:
- *   - Ensures uniqueness (no duplicate placement).
- *   - Exclusion: any (r,c) where |r-exclude.r| ≤ 1 and |c-exclude.c| ≤ 1.
+ *   - Ensures uniqueness (no cell gets more than `maxPerCell` mines).
+ *   - Exclusion: `firstClickZone` for the policy (by default the first-click cell plus every
+ *     neighbor the topology reports for it).
+ *   - Same board shape + mines + exclude + seeded rng always yields the same layout.
+ *   - Throws a RangeError when `mines` cannot fit outside the exclusion zone (the loop
+ *     would otherwise never end); see `validateBoardSize` in presets.ts.
  */
-export function placeMines(board: Cell[][], mines: number, exclude: { r: number; c: number }) {
+export function placeMines(
+  board: Cell[][],
+  mines: number,
+  exclude: { r: number; c: number },
+  rng: Rng = Math.random,
+  topology: Topology = SQUARE,
+  maxPerCell = 1,
+  firstClick: FirstClickPolicy = DEFAULT_FIRST_CLICK,
+  distribution: Distribution = UNIFORM,
+) {
   const rows = board.length;
   const cols = board[0].length;
+  const excluded = firstClickZone(firstClick, topology, rows, cols, exclude.r, exclude.c);
+  assertRoom(mines, rows * cols - excluded.size, maxPerCell);
+  const sample = mineSampler(distribution, rows, cols, topology);
+  // [Original] Avoid placing in the first-click safety zone (or on a full cell).
+  const available = (i: number) => !excluded.has(i) && board[Math.floor(i / cols)][i % cols].mineCount < maxPerCell;
   let placed = 0;
 
   while (placed < mines) {
-    const r = Math.floor(Math.random() * rows);
-    const c = Math.floor(Math.random() * cols);
+    const i = sample(rng, available);
+    if (!available(i)) continue;
 
-    // [Original] Avoid placing on excluded cell and its 8 neighbors (first-click safety).
-    if (Math.abs(r - exclude.r) <= 1 && Math.abs(c - exclude.c) <= 1) continue;
-
-    const cell = board[r][c];
-    if (!cell.isMine) {
-      cell.isMine = true;
-      placed++;
-    }
+    const cell = board[Math.floor(i / cols)][i % cols];
+    cell.isMine = true;
+    cell.mineCount++;
+    placed++;
   }
 }
 
 /**
- * Function: computeAdjacency(board)  [Original]
- * Purpose: For every non-mine cell, count neighboring mines in the 8 surrounding cells
- *          and store the count in `adjacent`. For mines, set `adjacent = -1` for convenience.
+ * Function: computeAdjacency(board, topology)  [Original]
+ * Purpose: For every non-mine cell, total the mines in the topology's neighbors (a cell
+ *          holding several mines counts each one) and store the total in `adjacent`. For mines, set `adjacent = -1` for convenience.
  * Inputs:
  *   - board: Cell[][] (will be mutated)
+ *   - topology: Topology (optional; defaults to the 8-neighbor square grid)
  * Outputs:
  *   - None (mutates `board` in place, filling `adjacent` for all cells).
- * Notes:
- *   - Uses a simple 3×3 neighborhood loop with bounds checks.
  */
-export function computeAdjacency(board: Cell[][]) {
-  const rows = board.length;
-  const cols = board[0].length;
-  const dirs = [-1, 0, 1];
+export function computeAdjacency(board: Cell[][], topology: Topology = SQUARE) {
+  const shape = gridShape(board, topology);
 
-  for (let r = 0; r < rows; r++) {
-    for (let c = 0; c < cols; c++) {
-      if (board[r][c].isMine) {
-        board[r][c].adjacent = -1;  // mark mines distinctly
-        continue;
-      }
+  for (let i = 0; i < board.length * shape.cols; i++) {
+    const at = coordAt(shape, i);
+    const cell = cellAt(board, shape, at);
+    if (cell.isMine) {
+      cell.adjacent = -1;  // mark mines distinctly
+      continue;
+    }
 
-      let count = 0;
-      for (const dr of dirs) for (const dc of dirs) {
-        if (dr === 0 && dc === 0) continue; // skip self
-        const nr = r + dr;
-        const nc = c + dc;
-        if (nr >= 0 && nr < rows && nc >= 0 && nc < cols) {
-          if (board[nr][nc].isMine) count++;
-        }
-      }
-      board[r][c].adjacent = count;
+    let count = 0;
+    for (const n of topology.neighborsOf(shape, at)) {
+      count += cellAt(board, shape, n).mineCount;
     }
+    cell.adjacent = count;
   }
 }
 
 /**
- * Function: floodFill(board, size, row, col)  [Original]
- * Purpose: Reveal the connected region starting at (row,col) using an explicit stack (BFS/DFS hybrid),
+ * Function: floodFill(board, start, topology)  [Original]
+ * Purpose: Reveal the connected region starting at `start` using an explicit stack (BFS/DFS hybrid),
  *          expanding through cells with `adjacent === 0`. Stops at numbered frontiers.
  * Inputs:
- *   - board: Cell[][] (will be mutated)
- *   - size: number  // board dimension (assumes square; used for bounds checks)
- *   - row: number
- *   - col: number
+ *   - board: Cell[][] (will be mutated; its shape comes from its size and the topology's layers)
+ *   - start: Coord (layer 0 on a flat board; `toCoord` converts a stacked row/column)
+ *   - topology: Topology (optional; defaults to the 8-neighbor square grid)
  * Outputs:
  *   - None (mutates `board` by setting `revealed=true` for visited cells).
  * Notes:
- *   - Respects flags: does not reveal flagged cells.
+ *   - Respects flags: does not reveal flagged cells. "?" marks do not block and are cleared on reveal.
  *   - Only enqueues neighbors that are not revealed and not mines.
  */
-export function floodFill(board: Cell[][], size: number, row: number, col: number) {
-  const stack = [[row, col]];
+export function floodFill(board: Cell[][], start: Coord, topology: Topology = SQUARE) {
+  const shape = gridShape(board, topology);
+  const stack = [start];
 
   while (stack.length > 0) {
-    const [rr, cc] = stack.pop()!;
-    const cur = board[rr][cc];
+    const at = stack.pop()!;
+    const cur = cellAt(board, shape, at);
 
     if (cur.revealed || cur.flagged) continue;  // skip already revealed or flagged cells
     cur.revealed = true;
+    cur.questioned = false;
 
     // [Original] If this cell has 0 adjacent mines, expand to all neighbors.
     if (cur.adjacent === 0) {
-      for (let dr = -1; dr <= 1; dr++) {
-        for (let dc = -1; dc <= 1; dc++) {
-          if (dr === 0 && dc === 0) continue; // skip current cell
-          const nr = rr + dr;
-          const nc = cc + dc;
-          // [Original] Bounds check within size×size (call-sites pass GRID_SIZE).
-          if (nr >= 0 && nr < size && nc >= 0 && nc < size) {
-            const neigh = board[nr][nc];
-            if (!neigh.revealed && !neigh.isMine) {
-              stack.push([nr, nc]);
-            }
-          }
+      for (const n of topology.neighborsOf(shape, at)) {
+        const neigh = cellAt(board, shape, n);
+        if (!neigh.revealed && !neigh.isMine) {
+          stack.push(n);
         }
       }
     }
   }
 }
 
+/**
+ * Function: neighbors(board, row, col, topology)
+ * Purpose: List the in-bounds coordinates of the cells surrounding (row,col) in the topology.
+ * Inputs:
+ *   - board: Cell[][] (only its shape is read)
+ *   - row: number
+ *   - col: number
+ *   - topology: Topology (optional; defaults to the 8-neighbor square grid)
+ * Outputs:
+ *   - Returns an array of [row, col] pairs, excluding (row,col) itself.
+ */
+export function neighbors(
+  board: Cell[][],
+  row: number,
+  col: number,
+  topology: Topology = SQUARE,
+): Array<[number, number]> {
+  return topology.neighbors(board.length, board[0].length, row, col);
+}
+
 /**
  * Function: cloneBoard(board)  [Original]
  * Purpose: Produce a shallow-deep clone of the board matrix to avoid mutating React state directly.
@@ -190,3 +265,50 @@ export function cloneBoard(board: Cell[][]) {
   return board.map(row => row.map(cell => ({ ...cell })));
 }
 
+
+/**
+ * Function: compute3BV(board, topology)
+ * Purpose: Compute the board's 3BV ("Bechtel's Board Benchmark Value"): the minimum number
+ *          of left clicks that clears the board without flagging.
+ * Inputs:
+ *   - board: Cell[][] (mines placed and adjacency computed; reveal state is ignored)
+ *   - topology: Topology (optional; defaults to the 8-neighbor square grid)
+ * Outputs:
+ *   - Returns the count: one click per opening (connected region of 0-cells, which also
+ *     uncovers its numbered border) plus one per numbered cell that no opening uncovers.
+ * Side Effects:
+ *   - None.
+ */
+export function compute3BV(board: Cell[][], topology: Topology = SQUARE): number {
+  const rows = board.length;
+  const cols = board[0].length;
+  const covered = new Set<number>(); // safe cells some counted click already uncovers
+  let clicks = 0;
+
+  // Openings first: each one uncovers its 0-region and the numbers bordering it.
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (board[r][c].adjacent !== 0 || board[r][c].isMine || covered.has(r * cols + c)) continue;
+      clicks++;
+      const stack = [[r, c]];
+      covered.add(r * cols + c);
+      while (stack.length > 0) {
+        const [rr, cc] = stack.pop()!;
+        if (board[rr][cc].adjacent !== 0) continue; // numbered border: uncovered, not expanded
+        for (const [nr, nc] of topology.neighbors(rows, cols, rr, cc)) {
+          if (covered.has(nr * cols + nc) || board[nr][nc].isMine) continue;
+          covered.add(nr * cols + nc);
+          stack.push([nr, nc]);
+        }
+      }
+    }
+  }
+
+  // Remaining numbered cells each need their own click.
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (!board[r][c].isMine && !covered.has(r * cols + c)) clicks++;
+    }
+  }
+  return clicks;
+}
@@ -0,0 +1,51 @@
+/**
+ * File: src/_util/heatmap.ts
+ * Module: Game Logic – Mine Probability Heatmap
+ * Brief: Per-cell chance of a mine for the heatmap overlay, from what the player can see
+ *        (numbers, flags and the mine count). Small boards are solved exactly by the frontier
+ *        solver; large boards give it a smaller search budget so it samples sooner and the
+ *        overlay keeps up with play.
+ *
+ * Inputs:
+ *   - A GameState, seen through the player's view (revealed numbers, flags, mine count).
+ * Outputs:
+ *   - A Heatmap, or null when there is nothing to estimate (before the first click, after the end).
+ *
+ * Side Effects:
+ *   - None.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-16
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { GameState } from "./engine";
+import { NODE_BUDGET, analyzeFrontier } from "./frontierSolver";
+import { playerView } from "./playerView";
+
+export type Heatmap = {
+  probability: Float64Array;   // row-major chance of a mine per covered, unflagged cell; −1 elsewhere
+  exact: boolean;              // false when part of the board was sampled
+};
+
+// Boards with more cells than this search less before sampling, so updates stay quick.
+const LARGE_BOARD = 2500;
+const LARGE_BOARD_BUDGET = NODE_BUDGET / 10;
+
+/**
+ * Function: mineHeatmap(state)
+ * Purpose: Chance of a mine in every covered cell of a game in progress.
+ * Notes:
+ *   - A board whose numbers contradict its flags (a wrong flag) still gets a heatmap: every
+ *     covered cell shows the overall mine density, marked as not exact.
+ */
+export function mineHeatmap(state: GameState): Heatmap | null {
+  if (!state.started || state.gameOver) return null;
+
+  const { rows, cols } = state.config;
+  const budget = rows * cols > LARGE_BOARD ? LARGE_BOARD_BUDGET : NODE_BUDGET;
+  const analysis = analyzeFrontier(playerView(state), budget);
+  return { probability: analysis.probability, exact: analysis.exact && analysis.consistent };
+}
@@ -0,0 +1,99 @@
+/**
+ * File: src/_util/history.ts
+ * Module: Game Logic – Move History (Undo/Redo)
+ * Brief: Wraps the rules engine with a past/present/future stack. Each player click,
+ *        hint, or AI turn is one undoable step, even when it is made of several engine
+ *        actions (e.g. an AI turn that places flags and then opens a cell).
+ *
+ * Inputs:
+ *   - GameHistory (previous) and a HistoryAction (any GameAction, a grouped step, undo or redo).
+ * Outputs:
+ *   - A new GameHistory; no-op actions return the same object unchanged.
+ *
+ * Side Effects:
+ *   - None; GameState values are immutable so snapshots are shared, not copied.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-13
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { GameAction, GameState } from "./engine";
+import { applyAction } from "./engine";
+
+export type GameHistory = {
+  past: GameState[];
+  present: GameState;
+  future: GameState[];
+  practice: boolean;  // undo was used after a loss: the game is disqualified from records
+};
+
+export type HistoryAction =
+  | GameAction
+  | { type: "step"; actions: GameAction[] }        // several engine actions as one undoable move
+  | { type: "undo"; allowAfterLoss?: boolean }     // allowAfterLoss: practice mode
+  | { type: "redo" };
+
+/**
+ * Function: createHistory(state)
+ * Purpose: Start a fresh history whose present is `state`.
+ */
+export function createHistory(state: GameState): GameHistory {
+  return { past: [], present: state, future: [], practice: false };
+}
+
+/**
+ * Function: canUndo(history, allowAfterLoss) / canRedo(history)
+ * Purpose: Whether the matching action would change anything (for enabling buttons).
+ */
+export function canUndo(history: GameHistory, allowAfterLoss = false): boolean {
+  const { past, present } = history;
+  if (past.length === 0 || present.gameOver === "won") return false;
+  return present.gameOver !== "lost" || allowAfterLoss;
+}
+
+export function canRedo(history: GameHistory): boolean {
+  return history.future.length > 0;
+}
+
+/**
+ * Function: applyHistoryAction(history, action)
+ * Purpose: Reducer for the page: plays moves through the engine and maintains the stacks.
+ * Notes:
+ *   - reset/load start a new game, so they clear the history.
+ *   - Undoing out of a lost game requires `allowAfterLoss` and marks the game as practice.
+ *   - A won game cannot be undone.
+ */
+export function applyHistoryAction(history: GameHistory, action: HistoryAction): GameHistory {
+  switch (action.type) {
+    case "reset":
+    case "load":
+      return createHistory(applyAction(history.present, action));
+
+    case "undo": {
+      if (!canUndo(history, action.allowAfterLoss)) return history;
+      const past = history.past.slice(0, -1);
+      return {
+        past,
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+        practice: history.practice || history.present.gameOver === "lost",
+      };
+    }
+
+    case "redo": {
+      if (!canRedo(history)) return history;
+      const [present, ...future] = history.future;
+      return { ...history, past: [...history.past, history.present], present, future };
+    }
+
+    default: {
+      const actions = action.type === "step" ? action.actions : [action];
+      const present = actions.reduce(applyAction, history.present);
+      if (present === history.present) return history; // nothing changed: not a move
+      return { ...history, past: [...history.past, history.present], present, future: [] };
+    }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * File: src/_util/neighborTable.ts
+ * Module: Game Logic – Neighbor Tables
+ * Brief: Precomputed neighbor lists for every cell of a board, in typed arrays, so hot loops
+ *        (flood fill, the player view, the frontier solver, AI scans) never allocate
+ *        coordinate arrays. Built once per topology and size and shared by every board.
+ *
+ * Inputs:
+ *   - A topology and the board size.
+ * Outputs:
+ *   - NeighborTable values (cell indices, see `indexOf` in topology.ts).
+ *
+ * Side Effects:
+ *   - Keeps a small module-level cache of built tables; callers must not write to them.
+ *
+ * External Sources / Attribution:
+ *   - Neighbor tables use the compressed sparse row (CSR) layout common in graph code.
+ *
+ * Creation Date: 2025-10-14
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { Topology } from "./topology";
+import { boardShape, coordAt, indexOf } from "./topology";
+
+// Neighbors of cell i are list[start[i]] … list[start[i + 1] − 1]. One table is shared by
+// every board and player view of the same topology and size, so it is typed read-only
+// (Int32Arrays underneath).
+export type NeighborTable = Readonly<{
+  start: ArrayLike<number>;
+  list: ArrayLike<number>;
+}>;
+
+// Tables are immutable and depend only on topology + size, so they are shared by every board.
+const tableCache = new Map<string, NeighborTable>();
+const MAX_CACHED_TABLES = 16;
+
+/**
+ * Function: neighborTable(topology, rows, cols)
+ * Purpose: Precomputed neighbor lists for every cell, so hot loops (flood fill, adjacency,
+ *          AI scans) never allocate coordinate arrays.
+ */
+export function neighborTable(topology: Topology, rows: number, cols: number): NeighborTable {
+  const key = `${topology.kind}:${topology.neighborhood}:${topology.layers}:${rows}x${cols}`;
+  const cached = tableCache.get(key);
+  if (cached) return cached;
+
+  const shape = boardShape(rows, cols, topology.layers);
+  const start = new Int32Array(rows * cols + 1);
+  const list: number[] = [];
+  for (let i = 0; i < rows * cols; i++) {
+    start[i] = list.length;
+    for (const n of topology.neighborsOf(shape, coordAt(shape, i))) list.push(indexOf(shape, n));
+  }
+  start[rows * cols] = list.length;
+
+  if (tableCache.size >= MAX_CACHED_TABLES) tableCache.clear();
+  const table = { start, list: Int32Array.from(list) };
+  tableCache.set(key, table);
+  return table;
+}
@@ -0,0 +1,82 @@
+/**
+ * File: src/_util/noGuess.ts
+ * Module: Game Logic – No-Guess Board Generation
+ * Brief: Places mines so the board can be cleared from the first click by pure deduction.
+ *        Random layouts are drawn and checked with the deterministic solver until one
+ *        passes, or until the attempt/time budget runs out.
+ *
+ * Inputs:
+ *   - board, mine count, first-click position, and the rng used by `placeMines`.
+ * Outputs:
+ *   - Mutates the board (mines + adjacency) and reports whether the guarantee holds.
+ *
+ * Side Effects:
+ *   - Mutates the passed-in board, like `placeMines` and `computeAdjacency`.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-12
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { Distribution } from "./distribution";
+import type { FirstClickPolicy } from "./firstClick";
+import type { Cell } from "./grid";
+import type { Rng } from "./rng";
+import type { Topology } from "./topology";
+import { placeMines, computeAdjacency } from "./grid";
+import { isSolvableWithoutGuessing } from "./solver";
+import { SQUARE } from "./topology";
+
+export type NoGuessOptions = {
+  maxAttempts?: number;   // upper bound on layouts tried
+  timeBudgetMs?: number;  // wall-clock bound so dense boards never hang the UI
+  firstClick?: FirstClickPolicy; // zone kept clear around the first click (see firstClick.ts)
+  distribution?: Distribution;   // where mines are drawn (see distribution.ts)
+};
+
+const DEFAULT_MAX_ATTEMPTS = 2000;
+const DEFAULT_TIME_BUDGET_MS = 750;
+
+/**
+ * Function: placeMinesNoGuess(board, mines, exclude, rng, topology, options)
+ * Purpose: Draw layouts with `placeMines` until one is solvable without guessing from `exclude`.
+ * Inputs:
+ *   - board: Cell[][] (will be mutated; must be freshly created / unmined)
+ *   - mines: number
+ *   - exclude: { r: number; c: number }  // the first click
+ *   - rng: Rng
+ *   - topology: Topology (optional; defaults to the 8-neighbor square grid)
+ *   - options: NoGuessOptions (optional)
+ * Outputs:
+ *   - Returns true if the final layout is guess-free, false if the budget ran out.
+ *     Either way the board is left with a valid layout and adjacency computed
+ *     (the fallback is simply the last standard layout drawn).
+ * Notes:
+ *   - With a seeded rng the result is reproducible as long as a layout is found
+ *     before the time budget expires; only the fallback path depends on timing.
+ *   - A guess-free board needs a safe first click, so under the "none" policy only layouts
+ *     that leave the click clear can pass.
+ */
+export function placeMinesNoGuess(
+  board: Cell[][],
+  mines: number,
+  exclude: { r: number; c: number },
+  rng: Rng,
+  topology: Topology = SQUARE,
+  options: NoGuessOptions = {},
+): boolean {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    for (const row of board) for (const cell of row) { cell.isMine = false; cell.mineCount = 0; }
+    placeMines(board, mines, exclude, rng, topology, 1, options.firstClick, options.distribution);
+    computeAdjacency(board, topology);
+
+    if (isSolvableWithoutGuessing(board, exclude, mines, topology)) return true;
+    if (Date.now() >= deadline) break;
+  }
+  return false;
+}
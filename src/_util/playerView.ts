@@ -0,0 +1,170 @@
+/**
+ * File: src/_util/playerView.ts
+ * Module: Game Logic – Player View & Moves
+ * Brief: The information boundary for bots. A PlayerView holds only what a human player can
+ *        see (board shape, revealed numbers, flags, the mine count); a Move is what a bot hands
+ *        back. Moves are checked against the view and then applied as ordinary engine actions,
+ *        so the AIs and the hint cannot read covered mines, even by accident.
+ *
+ * Inputs:
+ *   - A GameState (to build a view), and a Move proposed for that view.
+ * Outputs:
+ *   - PlayerView values; validation messages; the GameActions (or next state) for a move.
+ *
+ * Side Effects:
+ *   - None. A view's numbers and flags are fresh copies, so writing to them never touches the
+ *     game; its neighbor table is the engine's shared, cached one and is typed read-only.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-17
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { NeighborTable } from "./neighborTable";
+import type { GameAction, GameState } from "./engine";
+import type { BoardShape, Coord, Topology } from "./topology";
+import { adjacentAt, flagCountAt, isMineAt, isRevealedAt } from "./compactBoard";
+import { neighborTable } from "./neighborTable";
+import { applyAction, minesPerCell, shapeOf, topologyOf } from "./engine";
+import { isFirstClickSafe } from "./firstClick";
+import { formatCoord, fromCoord, inShape, indexOf } from "./topology";
+
+// `numbers` entry of a cell the player cannot see into.
+export const COVERED = -1;
+
+export type PlayerView = Readonly<{
+  rows: number;             // all layers' rows: the arrays below hold rows × cols cells
+  cols: number;
+  shape: BoardShape;        // layers and their size; cell i is at coordAt(shape, i)
+  topology: Topology;
+  neighbors: NeighborTable; // neighbor lists per cell index; shared, read-only
+  mines: number;            // total mines on the board
+  perCell: number;          // most mines (and flags) one cell can hold
+  started: boolean;         // has the first click happened?
+  firstClickSafe: boolean;  // whether the first click is protected from mines
+  over: boolean;            // won or lost: nothing more can be played
+  numbers: Int16Array;      // revealed cell → mines around it; COVERED while covered
+  flags: Uint8Array;        // flags on each cell (0 when none or revealed)
+}>;
+
+// Flags to put on one covered cell (0 takes them off).
+export type FlagPlacement = { at: Coord; count: number };
+
+// One bot turn: flags to set first, then at most one click. Cells are named by coordinate.
+export type Move = {
+  flags: FlagPlacement[];
+  click: { type: "reveal" | "chord"; at: Coord } | null;
+};
+
+/**
+ * Function: playerView(state)
+ * Purpose: What a player sees of `state`, read from its typed-array store.
+ * Notes:
+ *   - Mines revealed by a loss read as COVERED; the view is `over` by then anyway.
+ */
+export function playerView(state: GameState): PlayerView {
+  const { rows, cols, mines } = state.config;
+  const topology = topologyOf(state.config);
+  const { store } = state;
+  const numbers = new Int16Array(rows * cols).fill(COVERED);
+  const flags = new Uint8Array(rows * cols);
+  for (let i = 0; i < rows * cols; i++) {
+    if (!isRevealedAt(store, i)) flags[i] = flagCountAt(store, i);
+    else if (!isMineAt(store, i)) numbers[i] = adjacentAt(store, i);
+  }
+
+  return {
+    rows,
+    cols,
+    shape: shapeOf(state.config),
+    topology,
+    neighbors: neighborTable(topology, rows, cols),
+    mines,
+    perCell: minesPerCell(state.config),
+    started: state.started,
+    firstClickSafe: isFirstClickSafe(state.config.firstClick),
+    over: state.gameOver !== null,
+    numbers,
+    flags,
+  };
+}
+
+/**
+ * Function: unknownAt(view, i)
+ * Purpose: Whether cell i is covered and unflagged (what bots may still open).
+ */
+export function unknownAt(view: PlayerView, i: number): boolean {
+  return view.numbers[i] === COVERED && view.flags[i] === 0;
+}
+
+/**
+ * Function: validateMove(view, move)
+ * Purpose: Check a move against the view; returns why it is invalid, or null when it is fine.
+ * Notes:
+ *   - Flags must go on covered cells, with 0 … perCell flags each.
+ *   - A reveal must target a covered cell left unflagged after the move's flags; a chord must
+ *     target a revealed number whose flags (after the move's flags) match it.
+ */
+export function validateMove(view: PlayerView, move: Move): string | null {
+  const { shape } = view;
+  const where = (at: Coord) => formatCoord(shape, at);
+
+  if (view.over) return "The game is over";
+  if (move.flags.length === 0 && !move.click) return "The move does nothing";
+
+  const flags = Uint8Array.from(view.flags);
+  for (const { at, count } of move.flags) {
+    if (!inShape(shape, at)) return `Flag outside the board at ${where(at)}`;
+    if (view.numbers[indexOf(shape, at)] !== COVERED) return `Flag on a revealed cell at ${where(at)}`;
+    if (!Number.isInteger(count) || count < 0 || count > view.perCell) return `Invalid flag count ${count} at ${where(at)}`;
+    flags[indexOf(shape, at)] = count;
+  }
+
+  if (!move.click) return null;
+  const { type, at } = move.click;
+  if (!inShape(shape, at)) return `Click outside the board at ${where(at)}`;
+  const i = indexOf(shape, at);
+
+  if (type === "reveal") {
+    if (view.numbers[i] !== COVERED) return `Cell ${where(at)} is already revealed`;
+    if (flags[i] > 0) return `Cell ${where(at)} is flagged`;
+    return null;
+  }
+
+  const { start, list } = view.neighbors;
+  let flagged = 0;
+  for (let k = start[i]; k < start[i + 1]; k++) flagged += flags[list[k]];
+  if (view.numbers[i] <= 0) return `Cell ${where(at)} is not a revealed number`;
+  if (flagged !== view.numbers[i]) return `Number at ${where(at)} does not match its flags`;
+  return null;
+}
+
+/**
+ * Function: moveActions(view, move)
+ * Purpose: The engine actions that carry out a move (flags first, then the click).
+ * Notes:
+ *   - Throws an Error naming the problem when the move is invalid for the view.
+ *   - Engine actions address the stacked board, so coordinates are translated with `fromCoord`.
+ */
+export function moveActions(view: PlayerView, move: Move): GameAction[] {
+  const problem = validateMove(view, move);
+  if (problem) throw new Error(`Invalid move: ${problem}`);
+
+  const stacked = (at: Coord) => {
+    const [r, c] = fromCoord(view.shape.rows, at);
+    return { r, c };
+  };
+  const actions: GameAction[] = move.flags.map(({ at, count }) => ({ type: "flag", ...stacked(at), count }));
+  if (move.click) actions.push({ type: move.click.type, ...stacked(move.click.at) });
+  return actions;
+}
+
+/**
+ * Function: applyMove(state, move)
+ * Purpose: Validate a move against the player's view of `state` and play it through the engine.
+ */
+export function applyMove(state: GameState, move: Move): GameState {
+  return moveActions(playerView(state), move).reduce(applyAction, state);
+}
@@ -0,0 +1,161 @@
+/**
+ * File: src/_util/presets.ts
+ * Module: Game Logic – Difficulty Presets
+ * Brief: The classic Beginner / Intermediate / Expert board sizes, validation for custom
+ *        sizes, and the saved difficulty choice.
+ *
+ * Inputs:
+ *   - Board sizes (rows, cols, mines) and the rules they will be played under (topology, mines
+ *     per cell and first-click policy), which decide how many mines can actually fit.
+ * Outputs:
+ *   - Preset sizes, human-readable labels, validation messages.
+ *
+ * Side Effects:
+ *   - `loadDifficulty` / `saveDifficulty` read and write browser localStorage (no-ops elsewhere).
+ *
+ * External Sources / Attribution:
+ *   - Preset sizes follow the long-standing Windows Minesweeper defaults.
+ *
+ * Creation Date: 2025-10-15
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { GameConfig } from "./engine";
+import type { Topology } from "./topology";
+import { minesPerCell } from "./engine";
+import { DEFAULT_FIRST_CLICK, maxZoneSize } from "./firstClick";
+import { SQUARE } from "./topology";
+
+export type PresetKind = "beginner" | "intermediate" | "expert";
+export type DifficultyKind = PresetKind | "custom";
+
+export type BoardSize = Pick<GameConfig, "rows" | "cols" | "mines">;
+
+// Rules that change how many mines a board can hold.
+export type CapacityRules = Pick<GameConfig, "multiMine" | "firstClick">;
+
+// The selected difficulty; the last custom size is kept so re-selecting Custom restores it.
+export type Difficulty = {
+  kind: DifficultyKind;
+  custom: BoardSize;
+};
+
+export const PRESETS: Record<PresetKind, BoardSize & { label: string }> = {
+  beginner: { label: "Beginner", rows: 9, cols: 9, mines: 10 },
+  intermediate: { label: "Intermediate", rows: 16, cols: 16, mines: 40 },
+  expert: { label: "Expert", rows: 16, cols: 30, mines: 99 },
+};
+
+// Custom boards: big enough to play, up to the 200×200 boards the typed-array store keeps
+// quick (see compactBoard.ts) and the canvas view draws (see BoardCanvas.tsx).
+export const MIN_SIZE = 5;
+export const MAX_SIZE = 200;
+
+export const DEFAULT_DIFFICULTY: Difficulty = {
+  kind: "beginner",
+  custom: { rows: 10, cols: 10, mines: 15 },
+};
+
+const STORAGE_KEY = "minesweeper.difficulty";
+
+/**
+ * Function: boardSize(difficulty)
+ * Purpose: Rows, columns and mines for the selected difficulty.
+ */
+export function boardSize(difficulty: Difficulty): BoardSize {
+  if (difficulty.kind === "custom") return difficulty.custom;
+  const { rows, cols, mines } = PRESETS[difficulty.kind];
+  return { rows, cols, mines };
+}
+
+/**
+ * Function: describeBoard(config)
+ * Purpose: HUD label, e.g. "Expert 30×16/99" (width × height / mines), or "Beginner 9×9×3/30"
+ *          on a layered board (a preset per layer); sizes that match no preset (custom games,
+ *          loaded board codes) are labeled "Custom".
+ */
+export function describeBoard(config: BoardSize & Partial<Pick<GameConfig, "layers">>): string {
+  const { cols, mines } = config;
+  const layers = config.layers ?? 1;
+  const rows = config.rows / layers;
+  const preset = Object.values(PRESETS).find(p => p.rows === rows && p.cols === cols && p.mines * layers === mines);
+  const depth = layers > 1 ? `×${layers}` : "";
+  return `${preset?.label ?? "Custom"} ${cols}×${rows}${depth}/${mines}`;
+}
+
+/**
+ * Function: maxMines(rows, cols, topology, rules)
+ * Purpose: Most mines a board can hold wherever the first click lands.
+ * Inputs:
+ *   - rows, cols: size of one layer; a layered topology stacks `topology.layers` of them.
+ * Outputs:
+ *   - Mines per layer (sizes and mine counts are per layer, then multiplied by the layers).
+ * Notes:
+ *   - The first-click safety zone never gets mines, so the largest such zone (see
+ *     `maxZoneSize`) is subtracted; multi-mine cells hold several each.
+ *   - Constant time in the board size, so dialogs can call it on every keystroke.
+ *   - `placeMines` cannot finish above this count, so every size must be checked against it.
+ */
+export function maxMines(rows: number, cols: number, topology: Topology, rules: CapacityRules): number {
+  const totalRows = rows * topology.layers;
+  const excluded = maxZoneSize(rules.firstClick, topology, totalRows, cols);
+  return Math.floor(((totalRows * cols - excluded) * minesPerCell(rules)) / topology.layers);
+}
+
+/**
+ * Function: validateBoardSize(size, topology, rules)
+ * Purpose: Check a custom size before starting a game with it.
+ * Outputs:
+ *   - null when the size is playable; otherwise a user-readable reason.
+ */
+export function validateBoardSize(size: BoardSize, topology: Topology, rules: CapacityRules): string | null {
+  const { rows, cols, mines } = size;
+  for (const [name, value] of [["Width", cols], ["Height", rows]] as const) {
+    if (!Number.isInteger(value) || value < MIN_SIZE || value > MAX_SIZE) {
+      return `${name} must be a whole number from ${MIN_SIZE} to ${MAX_SIZE}`;
+    }
+  }
+  if (!Number.isInteger(mines) || mines < 1) return "Mines must be a whole number of at least 1";
+  const max = maxMines(rows, cols, topology, rules);
+  if (mines > max) {
+    const per = topology.layers > 1 ? " per layer" : "";
+    return `At most ${max} mines${per} fit on a ${cols}×${rows} board with these rules (the first-click safe area stays clear)`;
+  }
+  return null;
+}
+
+/**
+ * Function: loadDifficulty()
+ * Purpose: The difficulty saved by a previous visit, or the default.
+ * Notes:
+ *   - A saved custom size that no longer validates (edited storage, older limits) falls back
+ *     to the default preset; the page still fits the mines to the current rules on reset.
+ */
+export function loadDifficulty(): Difficulty {
+  if (typeof window === "undefined") return DEFAULT_DIFFICULTY;
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (
+      saved && (saved.kind === "custom" || saved.kind in PRESETS) && saved.custom &&
+      validateBoardSize(saved.custom, SQUARE, { multiMine: false, firstClick: DEFAULT_FIRST_CLICK }) === null
+    ) {
+      return { kind: saved.kind, custom: { rows: saved.custom.rows, cols: saved.custom.cols, mines: saved.custom.mines } };
+    }
+  } catch {
+    // Unreadable entry: fall through to the default.
+  }
+  return DEFAULT_DIFFICULTY;
+}
+
+/**
+ * Function: saveDifficulty(difficulty)
+ * Purpose: Remember the difficulty for the next visit.
+ */
+export function saveDifficulty(difficulty: Difficulty) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(difficulty));
+  } catch {
+    // Storage full or disabled: the default is used next time.
+  }
+}
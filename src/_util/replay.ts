@@ -0,0 +1,218 @@
+/**
+ * File: src/_util/replay.ts
+ * Module: Game Logic – Replay Recording & Reconstruction
+ * Brief: Records every move of a game (player clicks, AI turns, hints, undo/redo) with a
+ *        timestamp and its source, together with the game config (seed included) and the
+ *        first click, and rebuilds the sequence of board states for playback.
+ *
+ * Inputs:
+ *   - Game config, the history actions dispatched by the page, and their source.
+ * Outputs:
+ *   - Replay records, and the list of GameStates a replay passes through.
+ *
+ * Side Effects:
+ *   - `loadReplays` / `saveReplay` read and write browser localStorage (no-ops elsewhere).
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-13
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { GameConfig, GameState } from "./engine";
+import type { GameHistory, HistoryAction } from "./history";
+import { applyAction, createGame } from "./engine";
+import { applyHistoryAction, createHistory } from "./history";
+import { decodeBoard, encodeBoard } from "./boardCode";
+
+// "player", "hint", or the name of the AI strategy that moved (see ai/registry.ts).
+export type ActionSource = string;
+
+export type ReplayEvent = {
+  t: number;              // milliseconds since the replay started
+  source: ActionSource;
+  action: HistoryAction;
+};
+
+export type Replay = {
+  id: string;
+  startedAt: number;                       // epoch milliseconds
+  config: GameConfig;                      // includes the seed
+  firstClick: { r: number; c: number } | null;
+  firstClickAt: number | null;             // `t` of the move that started the game
+  layout: string | null;                   // mines-only board code captured at the first click
+  events: ReplayEvent[];
+  result: null | "won" | "lost";
+  practice: boolean;                       // a loss was undone: kept out of the saved replays
+};
+
+const STORAGE_KEY = "minesweeper.replays";
+const MAX_STORED_REPLAYS = 20;
+
+/**
+ * Function: createReplay(config, startedAt)
+ * Purpose: Start an empty recording for a new game.
+ */
+export function createReplay(config: GameConfig, startedAt: number = Date.now()): Replay {
+  return {
+    id: `${startedAt}-${config.seed}`,
+    startedAt,
+    config,
+    firstClick: null,
+    firstClickAt: null,
+    layout: null,
+    events: [],
+    result: null,
+    practice: false,
+  };
+}
+
+/**
+ * Function: recordEvent(replay, action, source, before, after, now)
+ * Purpose: Append one dispatched move. `before`/`after` are the game states around it,
+ *          used to capture the first click and the mine layout it produced, and the result.
+ * Outputs:
+ *   - Returns a new Replay (unchanged if the move did nothing).
+ */
+export function recordEvent(
+  replay: Replay,
+  action: HistoryAction,
+  source: ActionSource,
+  before: GameState,
+  after: GameState,
+  now: number = Date.now(),
+): Replay {
+  if (before === after) return replay;
+
+  const next: Replay = {
+    ...replay,
+    events: [...replay.events, { t: now - replay.startedAt, source, action }],
+    result: after.gameOver,
+  };
+
+  // The move that started the game fixed the layout: remember where it was and what it made.
+  if (!before.started && after.started && next.firstClick === null) {
+    const reveals = action.type === "step" ? action.actions : [action];
+    const first = reveals.find(a => a.type === "reveal" || a.type === "chord");
+    if (first && "r" in first) next.firstClick = { r: first.r, c: first.c };
+    next.firstClickAt = now - replay.startedAt;
+    const minesOnly = after.board.map(row => row.map(cell => ({
+      ...cell, revealed: false, flagged: false, flagCount: 0, questioned: false,
+    })));
+    next.layout = encodeBoard(minesOnly, after.config, false);
+  }
+  return next;
+}
+
+// Live game plus its recording, advanced together by one reducer so every move the
+// history accepts is recorded exactly once.
+export type RecordedGame = {
+  history: GameHistory;
+  replay: Replay;
+};
+
+export type RecordedAction = {
+  action: HistoryAction;
+  source: ActionSource;
+  now: number;            // epoch milliseconds, supplied by the caller to keep the reducer pure
+};
+
+/**
+ * Function: createRecordedGame(state, now)
+ * Purpose: Start a history and an empty recording for `state`.
+ */
+export function createRecordedGame(state: GameState, now: number = Date.now()): RecordedGame {
+  return { history: createHistory(state), replay: createReplay(state.config, now) };
+}
+
+/**
+ * Function: applyRecordedAction(game, message)
+ * Purpose: Reducer for the page: apply a history action and record it.
+ * Notes:
+ *   - reset starts a new, empty recording; load starts a new recording whose first event
+ *     is the load itself (so the loaded position can be played back).
+ *   - The recording follows the history's practice flag (set when a loss is undone).
+ */
+export function applyRecordedAction(game: RecordedGame, { action, source, now }: RecordedAction): RecordedGame {
+  const history = applyHistoryAction(game.history, action);
+  if (history === game.history) return game;
+
+  if (action.type === "reset") {
+    return { history, replay: createReplay(history.present.config, now) };
+  }
+  if (action.type === "load") {
+    const fresh = createReplay(history.present.config, now);
+    return { history, replay: recordEvent(fresh, action, source, game.history.present, history.present, now) };
+  }
+  const replay = recordEvent(game.replay, action, source, game.history.present, history.present, now);
+  return { history, replay: history.practice === replay.practice ? replay : { ...replay, practice: history.practice } };
+}
+
+/**
+ * Function: replayStates(replay)
+ * Purpose: Rebuild the game state after each event.
+ * Outputs:
+ *   - Returns [initial, afterEvent1, afterEvent2, …] (length = events + 1).
+ * Notes:
+ *   - The recorded layout is injected before the first click, so playback matches the
+ *     original game even if generation would differ (e.g. a timed-out no-guess search).
+ *     Only its mines are taken: flags and "?" marks placed before the first click stay.
+ */
+export function replayStates(replay: Replay): GameState[] {
+  let history: GameHistory = createHistory(createGame(replay.config));
+  const states: GameState[] = [history.present];
+  const layout = replay.layout ? decodeBoard(replay.layout).board : null;
+
+  for (const event of replay.events) {
+    if (layout && !history.present.started && startsGame(event.action)) {
+      const board = history.present.board.map((row, r) => row.map((cell, c) => {
+        const { isMine, mineCount, adjacent } = layout[r][c];
+        return { ...cell, isMine, mineCount, adjacent };
+      }));
+      history = { ...history, present: applyAction(history.present, { type: "load", board }) };
+    }
+    history = applyHistoryAction(history, event.action);
+    states.push(history.present);
+  }
+  return states;
+}
+
+// Moves that can trigger mine placement.
+function startsGame(action: HistoryAction): boolean {
+  if (action.type === "step") return action.actions.some(a => a.type === "reveal");
+  return action.type === "reveal";
+}
+
+/**
+ * Function: loadReplays()
+ * Purpose: Read saved replays (newest first) from localStorage; empty outside the browser.
+ */
+export function loadReplays(): Replay[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Function: saveReplay(replay)
+ * Purpose: Insert or update a replay in localStorage, keeping only the most recent ones.
+ *          Replays without any moves are not stored.
+ * Notes:
+ *   - Practice games are not recorded: once a game turns practice, the copy saved before
+ *     is removed.
+ */
+export function saveReplay(replay: Replay) {
+  if (typeof window === "undefined" || replay.events.length === 0) return;
+  const others = loadReplays().filter(r => r.id !== replay.id);
+  const kept = replay.practice ? others : [replay, ...others].slice(0, MAX_STORED_REPLAYS);
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+  } catch {
+    // Storage full or disabled: replays are a convenience, so drop silently.
+  }
+}
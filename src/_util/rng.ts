@@ -0,0 +1,101 @@
+/**
+ * File: src/_util/rng.ts
+ * Module: Game Logic – Seedable Random Number Generation
+ * Brief: Small deterministic PRNG used everywhere the game needs randomness
+ *        (mine placement, AI choices, hints) so that a game can be reproduced
+ *        exactly from its seed and first click.
+ *
+ * Inputs:
+ *   - A 32-bit unsigned integer seed (or free-form text that is hashed into one).
+ * Outputs:
+ *   - `Rng` functions that behave like `Math.random` (uniform floats in [0, 1)).
+ *
+ * Side Effects:
+ *   - Each `Rng` keeps its own internal state; calling it advances that state.
+ *
+ * External Sources / Attribution:
+ *   - Mulberry32 generator (public domain, Tommy Ettinger).
+ *   - FNV-1a string hash (public domain, Fowler/Noll/Vo).
+ *
+ * Creation Date: 2025-10-12
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+// Drop-in replacement for Math.random: returns a float in [0, 1).
+export type Rng = () => number;
+
+/**
+ * Function: createRng(seed)
+ * Purpose: Build a Mulberry32 generator from a 32-bit seed.
+ * Inputs:
+ *   - seed: number (only the low 32 bits are used)
+ * Outputs:
+ *   - Returns an Rng; two generators built from the same seed yield the same sequence.
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Function: deriveSeed(seed, stream)
+ * Purpose: Derive an independent sub-seed so separate consumers (board generation,
+ *          AI moves) do not share one random stream and disturb each other.
+ * Inputs:
+ *   - seed: number    // the game seed
+ *   - stream: number  // small integer naming the consumer
+ * Outputs:
+ *   - Returns a new 32-bit seed.
+ */
+export function deriveSeed(seed: number, stream: number): number {
+  let h = (seed ^ Math.imul(stream + 1, 0x9e3779b9)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Function: randomSeed()
+ * Purpose: Pick a fresh seed for a new, unspecified game.
+ * Outputs:
+ *   - Returns a 32-bit unsigned integer.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Function: parseSeed(text)
+ * Purpose: Turn user input into a seed. Plain non-negative integers are used as-is
+ *          (so a seed shown in the HUD can be typed back in); anything else is hashed.
+ * Inputs:
+ *   - text: string
+ * Outputs:
+ *   - Returns a 32-bit seed, or null when the input is blank.
+ */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (trimmed === "") return null;
+  if (/^\d+$/.test(trimmed) && Number(trimmed) <= 0xffffffff) return Number(trimmed) >>> 0;
+
+  let h = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    h ^= trimmed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Function: randomInt(rng, n)
+ * Purpose: Uniform integer in [0, n) drawn from the given generator.
+ */
+export function randomInt(rng: Rng, n: number): number {
+  return Math.floor(rng() * n);
+}
@@ -0,0 +1,165 @@
+/**
+ * File: src/_util/solver.ts
+ * Module: Game Logic – Deterministic Deduction Solver
+ * Brief: Finds moves that are certain given only what a player can see (revealed numbers,
+ *        flags, and the total mine count). Used by the no-guess generator to check that a
+ *        layout can be cleared from its first click without ever guessing.
+ *
+ * Inputs:
+ *   - board: Cell[][] (only `revealed`, `flagged` and revealed `adjacent` values are read
+ *     by the deduction step; `isMine` is read only when simulating a full solve)
+ * Outputs:
+ *   - Lists of certainly-safe and certainly-mined coordinates, or a solvable yes/no.
+ *   - Assumes the classic one-mine-per-cell rules (multi-mine games do not use no-guess).
+ *
+ * Side Effects:
+ *   - None; simulations run on a cloned board.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-12
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { Cell } from "./grid";
+import type { Coord, Topology } from "./topology";
+import { cellAt, cloneBoard, floodFill, gridShape } from "./grid";
+import { SQUARE, coordAt, indexOf, toCoord } from "./topology";
+
+export type CertainMoves = {
+  safe: Coord[];
+  mines: Coord[];
+};
+
+// One revealed number: exactly `mines` of the covered, unflagged `cells` are mines.
+type Constraint = { cells: number[]; mines: number };
+
+/**
+ * Function: findCertainMoves(board, totalMines?, topology?)
+ * Purpose: Deduce every covered cell that is certainly safe or certainly a mine, using
+ *          - single-number rules (all covered neighbors safe / all mines),
+ *          - the subset rule between two overlapping numbers, and
+ *          - the global mine count when `totalMines` is given.
+ * Inputs:
+ *   - board: Cell[][]
+ *   - totalMines: number (optional)
+ *   - topology: Topology (optional; defaults to the 8-neighbor square grid)
+ * Outputs:
+ *   - Returns { safe, mines } as coordinates (no duplicates, no overlap).
+ * Notes:
+ *   - Never reads `isMine` on covered cells, so it is safe to run on a live game.
+ */
+export function findCertainMoves(
+  board: Cell[][],
+  totalMines?: number,
+  topology: Topology = SQUARE,
+): CertainMoves {
+  const shape = gridShape(board, topology);
+  const cellCount = board.length * shape.cols;
+  const safe = new Set<number>();
+  const mines = new Set<number>();
+
+  // Gather one constraint per revealed number that still touches covered cells.
+  const constraints: Constraint[] = [];
+  for (let i = 0; i < cellCount; i++) {
+    const at = coordAt(shape, i);
+    const cell = cellAt(board, shape, at);
+    if (!cell.revealed || cell.adjacent < 0) continue;
+
+    const cells: number[] = [];
+    let flagged = 0;
+    for (const n of topology.neighborsOf(shape, at)) {
+      const neigh = cellAt(board, shape, n);
+      if (neigh.flagged) flagged++;
+      else if (!neigh.revealed) cells.push(indexOf(shape, n));
+    }
+    if (cells.length > 0) constraints.push({ cells, mines: cell.adjacent - flagged });
+  }
+
+  // Single-number rules.
+  for (const k of constraints) {
+    if (k.mines === 0) k.cells.forEach(i => safe.add(i));
+    else if (k.mines === k.cells.length) k.cells.forEach(i => mines.add(i));
+  }
+
+  // Subset rule: if A's cells ⊂ B's cells, then B \ A holds exactly B.mines − A.mines mines.
+  const byCell = new Map<number, number[]>();
+  constraints.forEach((k, idx) => {
+    for (const i of k.cells) {
+      const list = byCell.get(i);
+      if (list) list.push(idx); else byCell.set(i, [idx]);
+    }
+  });
+  constraints.forEach((a, ai) => {
+    const aSet = new Set(a.cells);
+    const partners = new Set<number>();
+    for (const i of a.cells) for (const bi of byCell.get(i)!) if (bi !== ai) partners.add(bi);
+
+    for (const bi of partners) {
+      const b = constraints[bi];
+      if (b.cells.length <= a.cells.length) continue;
+      if (!a.cells.every(i => b.cells.includes(i))) continue;
+
+      const rest = b.cells.filter(i => !aSet.has(i));
+      const restMines = b.mines - a.mines;
+      if (restMines === 0) rest.forEach(i => safe.add(i));
+      else if (restMines === rest.length) rest.forEach(i => mines.add(i));
+    }
+  });
+
+  // Global count: once every mine is accounted for (or every covered cell must be one).
+  if (totalMines !== undefined) {
+    const covered: number[] = [];
+    let flagged = 0;
+    for (let i = 0; i < cellCount; i++) {
+      const cell = cellAt(board, shape, coordAt(shape, i));
+      if (cell.flagged) flagged++;
+      else if (!cell.revealed) covered.push(i);
+    }
+    const remaining = totalMines - flagged;
+    if (covered.length > 0 && remaining === 0) covered.forEach(i => safe.add(i));
+    else if (covered.length > 0 && remaining === covered.length) covered.forEach(i => mines.add(i));
+  }
+
+  return {
+    safe: Array.from(safe).filter(i => !mines.has(i)).map(i => coordAt(shape, i)),
+    mines: Array.from(mines).filter(i => !safe.has(i)).map(i => coordAt(shape, i)),
+  };
+}
+
+/**
+ * Function: isSolvableWithoutGuessing(board, start, totalMines, topology?)
+ * Purpose: Simulate a perfect logical player starting at `start` and report whether every
+ *          safe cell can be revealed using only certain deductions.
+ * Inputs:
+ *   - board: Cell[][] with mines placed and adjacency computed
+ *   - start: { r: number; c: number }  // the first click (stacked board row/column, as in engine actions)
+ *   - totalMines: number
+ *   - topology: Topology (optional; defaults to the 8-neighbor square grid)
+ * Outputs:
+ *   - Returns true when the whole board clears without a guess.
+ * Side Effects:
+ *   - None (works on a clone).
+ */
+export function isSolvableWithoutGuessing(
+  board: Cell[][],
+  start: { r: number; c: number },
+  totalMines: number,
+  topology: Topology = SQUARE,
+): boolean {
+  const sim = cloneBoard(board);
+  for (const row of sim) for (const cell of row) { cell.revealed = false; cell.flagged = false; cell.flagCount = 0; }
+  if (sim[start.r][start.c].isMine) return false;
+  const shape = gridShape(sim, topology);
+  floodFill(sim, toCoord(shape.rows, start.r, start.c), topology);
+
+  for (;;) {
+    const { safe, mines } = findCertainMoves(sim, totalMines, topology);
+    if (safe.length === 0 && mines.length === 0) break;
+    for (const at of mines) { const cell = cellAt(sim, shape, at); cell.flagged = true; cell.flagCount = 1; }
+    for (const at of safe) floodFill(sim, at, topology);
+  }
+
+  return sim.every(row => row.every(cell => cell.isMine || cell.revealed));
+}
@@ -0,0 +1,70 @@
+/**
+ * File: src/_util/stats.ts
+ * Module: Game Logic – End-of-Game Statistics
+ * Brief: Derives the numbers competitive players track from a finished game and its
+ *        recording: 3BV, 3BV/s, clicks used, efficiency, and time in milliseconds, tagged with
+ *        the mine distribution so results can be compared per strategy.
+ *
+ * Inputs:
+ *   - The final GameState (for the mine layout) and the game's Replay (for clicks and timing).
+ * Outputs:
+ *   - A GameStats record, or null if the game never started.
+ *
+ * Side Effects:
+ *   - None.
+ *
+ * External Sources / Attribution:
+ *   - None; 3BV, 3BV/s and efficiency use the standard competitive Minesweeper definitions.
+ *
+ * Creation Date: 2025-10-13
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import type { DistributionKind } from "./distribution";
+import type { GameState } from "./engine";
+import type { Replay } from "./replay";
+import { topologyOf } from "./engine";
+import { compute3BV } from "./grid";
+
+export type GameStats = {
+  bbbv: number;          // 3BV of the board
+  bbbvPerSecond: number; // 3BV / elapsed seconds
+  clicks: number;        // board clicks used: reveals, flags, "?" marks and chords
+  efficiency: number;    // 3BV / clicks, as a percentage
+  elapsedMs: number;     // from the first click to the final move
+  distribution: DistributionKind; // how the mines were laid out
+  practice: boolean;     // a loss was undone: shown as practice, not as a record
+};
+
+/**
+ * Function: computeStats(state, replay)
+ * Purpose: Summarize a finished (or in-progress) game.
+ * Notes:
+ *   - Every board click counts, including ones later undone and ones made by the AI or hints.
+ *   - Undo/redo and reset are not clicks.
+ *   - After an undone loss the numbers cover the rewound game, so they are flagged as practice.
+ */
+export function computeStats(state: GameState, replay: Replay): GameStats | null {
+  if (!state.started || replay.firstClickAt === null || replay.events.length === 0) return null;
+
+  const bbbv = compute3BV(state.board, topologyOf(state.config));
+  const clicks = replay.events.reduce((n, { action }) => {
+    if (action.type === "step") return n + action.actions.filter(isClick).length;
+    return n + (isClick(action) ? 1 : 0);
+  }, 0);
+  const elapsedMs = replay.events[replay.events.length - 1].t - replay.firstClickAt;
+
+  return {
+    bbbv,
+    bbbvPerSecond: elapsedMs > 0 ? bbbv / (elapsedMs / 1000) : 0,
+    clicks,
+    efficiency: clicks > 0 ? (bbbv / clicks) * 100 : 0,
+    elapsedMs,
+    distribution: state.config.distribution.kind,
+    practice: replay.practice,
+  };
+}
+
+function isClick(action: { type: string }): boolean {
+  return action.type === "reveal" || action.type === "flag" || action.type === "mark" || action.type === "chord";
+}
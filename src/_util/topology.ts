@@ -0,0 +1,281 @@
+/**
+ * File: src/_util/topology.ts
+ * Module: Game Logic – Board Topologies
+ * Brief: A topology decides which cells neighbor each other. Every rule that looks
+ *        around a cell (adjacency counts, flood-fill, first-click exclusion, chording,
+ *        AI deductions, grid layout) asks the active topology instead of looping over
+ *        a hard-coded 3×3 block. On square lattices (plain or wrapped) the neighborhood
+ *        shape is configurable too: 3×3, knight's move, 5×5 or orthogonal-only.
+ *        Any of these can be stacked into layers (a 3D board): a cell then also touches the
+ *        cell directly above/below it and that cell's in-layer neighbors (26 in total for 3×3).
+ *
+ * Inputs:
+ *   - A board shape and a cell coordinate (`neighborsOf`), or the stacked board's rows, cols
+ *     and a row/column in it (`neighbors`; rows = layers × rows per layer, see `Coord`).
+ * Outputs:
+ *   - In-bounds neighbor coordinates for that cell (wrapped around the edges on a torus).
+ *
+ * Side Effects:
+ *   - None.
+ *
+ * External Sources / Attribution:
+ *   - Hex offset-coordinate neighbor tables follow the "odd-r" layout described in
+ *     Red Blob Games, "Hexagonal Grids" (https://www.redblobgames.com/grids/hexagons/).
+ *
+ * Creation Date: 2025-10-12
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+export type TopologyKind = "square" | "hex" | "torus";
+
+// Which cells around (r, c) count as neighbors on a square lattice.
+export type NeighborhoodKind = "moore" | "knight" | "extended" | "orthogonal";
+
+// A board's size as its cells are addressed: `layers` layers of rows × cols cells (1 on a flat board).
+export type BoardShape = { layers: number; rows: number; cols: number };
+
+// A cell by layer and its row/column within that layer. Rules that walk the board by
+// geometry go through coordinates: neighborhoods (`neighborsOf`), adjacency and flood fill
+// (grid.ts, compactBoard.ts), neighbor tables and the bots' moves (playerView.ts). Storage
+// stacks the layers instead: Cell[][] rows, the compact store, engine actions, replays and
+// board codes put layer L in rows L·rows … (L+1)·rows − 1, so a flat board is layer 0 as is.
+// `toCoord`/`fromCoord` translate stacked rows, `coordAt`/`indexOf` cell indices.
+export type Coord = { layer: number; r: number; c: number };
+
+export type Topology = {
+  kind: TopologyKind;
+  neighborhood: NeighborhoodKind; // hex boards always use their own 6-cell neighborhood ("moore")
+  layers: number;         // 1 for a flat board; above 1, neighbors reach the layers above and below
+  label: string;          // shown in the board-type selector
+  maxNeighbors: number;   // largest possible adjacency count
+  wraps: boolean;         // opposite edges are adjacent (drawn with a cue on the grid)
+  neighborsOf: (shape: BoardShape, at: Coord) => Coord[];
+  // The same neighbors on the stacked board (`rows` counts every layer's rows).
+  neighbors: (rows: number, cols: number, r: number, c: number) => Array<[number, number]>;
+};
+
+export const MAX_LAYERS = 5;
+
+/**
+ * Function: boardShape(rows, cols, layers)
+ * Purpose: Shape of a stacked board of `rows` rows (all layers) and `cols` columns.
+ */
+export function boardShape(rows: number, cols: number, layers = 1): BoardShape {
+  return { layers, rows: rows / layers, cols };
+}
+
+export function toCoord(layerRows: number, r: number, c: number): Coord {
+  return { layer: Math.floor(r / layerRows), r: r % layerRows, c };
+}
+
+export function fromCoord(layerRows: number, coord: Coord): [number, number] {
+  return [coord.layer * layerRows + coord.r, coord.c];
+}
+
+// Cell index of a coordinate: its position in row-major order over the stacked rows.
+export function indexOf(shape: BoardShape, at: Coord): number {
+  return (at.layer * shape.rows + at.r) * shape.cols + at.c;
+}
+
+export function coordAt(shape: BoardShape, i: number): Coord {
+  return toCoord(shape.rows, Math.floor(i / shape.cols), i % shape.cols);
+}
+
+export function inShape(shape: BoardShape, at: Coord): boolean {
+  const within = (n: number, size: number) => Number.isInteger(n) && n >= 0 && n < size;
+  return within(at.layer, shape.layers) && within(at.r, shape.rows) && within(at.c, shape.cols);
+}
+
+// "(r,c)", or "(layer,r,c)" on a layered board: how logs and move errors name a cell.
+export function formatCoord(shape: BoardShape, at: Coord): string {
+  return shape.layers > 1 ? `(${at.layer},${at.r},${at.c})` : `(${at.r},${at.c})`;
+}
+
+export type Neighborhood = {
+  kind: NeighborhoodKind;
+  label: string;          // shown in the neighborhood selector
+  offsets: ReadonlyArray<readonly [number, number]>;
+};
+
+// Collect in-bounds (r+dr, c+dc) for each offset.
+function offsetsToNeighbors(
+  offsets: ReadonlyArray<readonly [number, number]>,
+  rows: number,
+  cols: number,
+  r: number,
+  c: number,
+): Array<[number, number]> {
+  const out: Array<[number, number]> = [];
+  for (const [dr, dc] of offsets) {
+    const nr = r + dr;
+    const nc = c + dc;
+    if (nr >= 0 && nr < rows && nc >= 0 && nc < cols) out.push([nr, nc]);
+  }
+  return out;
+}
+
+// Same, but wrapping around the edges (torus). Tiny boards can wrap onto the same cell
+// twice, or back onto (r, c) itself; each neighbor is listed once and never the cell itself.
+function offsetsToWrappedNeighbors(
+  offsets: ReadonlyArray<readonly [number, number]>,
+  rows: number,
+  cols: number,
+  r: number,
+  c: number,
+): Array<[number, number]> {
+  const seen = new Set<number>([r * cols + c]);
+  const out: Array<[number, number]> = [];
+  for (const [dr, dc] of offsets) {
+    const nr = (((r + dr) % rows) + rows) % rows;
+    const nc = (((c + dc) % cols) + cols) % cols;
+    if (seen.has(nr * cols + nc)) continue;
+    seen.add(nr * cols + nc);
+    out.push([nr, nc]);
+  }
+  return out;
+}
+
+const SQUARE_OFFSETS = [
+  [-1, -1], [-1, 0], [-1, 1],
+  [0, -1],           [0, 1],
+  [1, -1],  [1, 0],  [1, 1],
+] as const;
+
+// A chess knight's jumps.
+const KNIGHT_OFFSETS = [
+  [-2, -1], [-2, 1], [-1, -2], [-1, 2],
+  [1, -2],  [1, 2],  [2, -1],  [2, 1],
+] as const;
+
+// Every cell within two steps in both directions (5×5 block minus the center).
+const EXTENDED_OFFSETS = Array.from({ length: 25 }, (_, i) => [Math.floor(i / 5) - 2, (i % 5) - 2] as const)
+  .filter(([dr, dc]) => dr !== 0 || dc !== 0);
+
+const ORTHOGONAL_OFFSETS = [[-1, 0], [0, -1], [0, 1], [1, 0]] as const;
+
+// Both neighbor functions of a flat topology from its in-layer one: a coordinate's neighbors
+// are the cells around it in its own layer.
+function flatNeighbors(neighbors: Topology["neighbors"]): Pick<Topology, "neighbors" | "neighborsOf"> {
+  return {
+    neighbors,
+    neighborsOf: (shape, at) => neighbors(shape.rows, shape.cols, at.r, at.c).map(([r, c]) => ({ layer: at.layer, r, c })),
+  };
+}
+
+export const NEIGHBORHOODS: Record<NeighborhoodKind, Neighborhood> = {
+  moore: { kind: "moore", label: "3×3 (classic)", offsets: SQUARE_OFFSETS },
+  knight: { kind: "knight", label: "Knight's move", offsets: KNIGHT_OFFSETS },
+  extended: { kind: "extended", label: "5×5 extended", offsets: EXTENDED_OFFSETS },
+  orthogonal: { kind: "orthogonal", label: "Orthogonal only", offsets: ORTHOGONAL_OFFSETS },
+};
+
+// Odd rows are drawn shifted right by half a cell, so the diagonal pair depends on row parity.
+const HEX_EVEN_ROW_OFFSETS = [[-1, -1], [-1, 0], [0, -1], [0, 1], [1, -1], [1, 0]] as const;
+const HEX_ODD_ROW_OFFSETS = [[-1, 0], [-1, 1], [0, -1], [0, 1], [1, 0], [1, 1]] as const;
+
+// Classic 8-neighbor square grid.
+export const SQUARE: Topology = {
+  kind: "square",
+  neighborhood: "moore",
+  layers: 1,
+  label: "Square",
+  maxNeighbors: 8,
+  wraps: false,
+  ...flatNeighbors((rows, cols, r, c) => offsetsToNeighbors(SQUARE_OFFSETS, rows, cols, r, c)),
+};
+
+// Hexagonal grid in "odd-r" offset coordinates: 6 neighbors per cell.
+export const HEX: Topology = {
+  kind: "hex",
+  neighborhood: "moore",
+  layers: 1,
+  label: "Hexagonal",
+  maxNeighbors: 6,
+  wraps: false,
+  ...flatNeighbors((rows, cols, r, c) =>
+    offsetsToNeighbors(r % 2 === 0 ? HEX_EVEN_ROW_OFFSETS : HEX_ODD_ROW_OFFSETS, rows, cols, r, c)),
+};
+
+// Square grid whose edges wrap: top row touches bottom row, left column touches right column,
+// so every cell has exactly 8 neighbors (fewer only on boards narrower than 3 cells).
+export const TORUS: Topology = {
+  kind: "torus",
+  neighborhood: "moore",
+  layers: 1,
+  label: "Toroidal (wrap-around)",
+  maxNeighbors: 8,
+  wraps: true,
+  ...flatNeighbors((rows, cols, r, c) => offsetsToWrappedNeighbors(SQUARE_OFFSETS, rows, cols, r, c)),
+};
+
+export const TOPOLOGIES: Record<TopologyKind, Topology> = {
+  square: SQUARE,
+  hex: HEX,
+  torus: TORUS,
+};
+
+// Square-lattice topologies rebuilt for each non-classic neighborhood, and layered stacks,
+// created on first use.
+const variants = new Map<string, Topology>();
+
+// Stack `layers` copies of a flat topology. Layers never wrap, even when the plane does.
+function stackLayers(flat: Topology, layers: number): Topology {
+  const neighborsOf = (shape: BoardShape, at: Coord): Coord[] => {
+    const inLayer = flat.neighborsOf(shape, at);
+    const out: Coord[] = [];
+    for (let layer = Math.max(0, at.layer - 1); layer <= Math.min(shape.layers - 1, at.layer + 1); layer++) {
+      if (layer !== at.layer) out.push({ ...at, layer });
+      for (const n of inLayer) out.push({ ...n, layer });
+    }
+    return out;
+  };
+  return {
+    ...flat,
+    layers,
+    label: `${flat.label}, ${layers} layers`,
+    maxNeighbors: flat.maxNeighbors * 3 + 2,   // own layer, plus the cell and its neighbors above and below
+    neighborsOf,
+    neighbors: (rows, cols, r, c) => {
+      const shape = boardShape(rows, cols, layers);
+      return neighborsOf(shape, toCoord(shape.rows, r, c)).map(n => fromCoord(shape.rows, n));
+    },
+  };
+}
+
+/**
+ * Function: getTopology(kind, neighborhood, layers)
+ * Purpose: Look up a topology by its serializable kind, neighborhood and layer count (as stored
+ *          in game config).
+ * Notes:
+ *   - The neighborhood applies to square and torus boards; hex boards ignore it.
+ *   - With more than one layer the board's row count must be a multiple of `layers`.
+ */
+export function getTopology(kind: TopologyKind, neighborhood: NeighborhoodKind = "moore", layers = 1): Topology {
+  if (layers > 1) {
+    const key = `${kind}:${neighborhood}:${layers}`;
+    let topology = variants.get(key);
+    if (!topology) {
+      topology = stackLayers(getTopology(kind, neighborhood), layers);
+      variants.set(key, topology);
+    }
+    return topology;
+  }
+
+  const base = TOPOLOGIES[kind];
+  if (neighborhood === "moore" || kind === "hex") return base;
+
+  const key = `${kind}:${neighborhood}`;
+  let topology = variants.get(key);
+  if (!topology) {
+    const { offsets } = NEIGHBORHOODS[neighborhood];
+    const toNeighbors = base.wraps ? offsetsToWrappedNeighbors : offsetsToNeighbors;
+    topology = {
+      ...base,
+      neighborhood,
+      maxNeighbors: offsets.length,
+      ...flatNeighbors((rows, cols, r, c) => toNeighbors(offsets, rows, cols, r, c)),
+    };
+    variants.set(key, topology);
+  }
+  return topology;
+}
@@ -0,0 +1,290 @@
+/**
+ * File: src/app/BoardCanvas.tsx
+ * Module: User Interface – Large Board Canvas
+ * Brief: Canvas view of a fixed board too big for <RenderGrid/> (thousands of cells). Draws
+ *        straight from the engine's typed-array store, only the cells in view; drag to pan,
+ *        scroll to zoom, and the usual clicks to play.
+ *
+ * Inputs (props):
+ *   - store: CompactBoard                              // the game's store (see compactBoard.ts)
+ *   - rows, cols: number                               // size of the board (or layer) to draw
+ *   - firstRow: number                                 // store row of the first drawn row (layers; optional)
+ *   - reveal(r, c) / flag(e, r, c) / chord(r, c)        // same handlers as <RenderGrid/>, with drawn-row numbers
+ *   - topology: TopologyKind                           // "hex" shifts odd rows half a cell (optional)
+ *   - heat: Float64Array | null                        // row-major mine chance for the drawn rows (optional)
+ *
+ * Outputs:
+ *   - A canvas filling its container's width, with the cell under the pointer named in a corner.
+ *
+ * Side Effects:
+ *   - Observes its own size to keep the canvas sharp on resize and high-DPI screens.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-19
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+'use client'
+
+import React, { useEffect, useRef, useState } from "react";
+
+import type { CompactBoard } from "@/_util/compactBoard";
+import type { TopologyKind } from "@/_util/topology";
+import {
+  adjacentAt,
+  flagCountAt,
+  isQuestionedAt,
+  isRevealedAt,
+  mineCountAt,
+} from "@/_util/compactBoard";
+import { getTopology } from "@/_util/topology";
+import { columnLabel, heatColor, percent } from "./RenderGrid";
+
+interface BoardCanvasProps {
+  store: CompactBoard;
+  rows: number;
+  cols: number;
+  firstRow?: number;
+  reveal: (r: number, c: number) => void;
+  flag: (e: React.MouseEvent, r: number, c: number) => void;
+  chord?: (r: number, c: number) => void;
+  topology?: TopologyKind;
+  heat?: Float64Array | null;
+}
+
+// Camera: the board position (in cells, fractional) at the viewport center, and zoom.
+type Camera = { r: number; c: number; cellSize: number };
+
+const MIN_CELL = 3;          // small enough to fit a 200×200 board on screen
+const MAX_CELL = 48;
+const MIN_DETAIL = 8;        // below this cell size numbers, flags and grid lines are left out
+const DRAG_THRESHOLD = 4;    // px moved before a press counts as a pan instead of a click
+
+const COLORS = {
+  covered: "#ffffff",
+  revealed: "#000000",
+  grid: "#d1d5db",        // gray-300, as on the DOM grid
+  number: "#ffffff",
+  flag: "#0369a1",        // sky-700
+  mine: "#dc2626",        // red-600
+  question: "#d97706",    // amber-600
+  wrap: "#f59e0b",        // amber-500: wrapping edges are dashed, as on the DOM grid
+};
+
+export default function BoardCanvas({
+  store, rows, cols, firstRow = 0, reveal, flag, chord, topology = "square", heat = null,
+}: BoardCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [moved, setMoved] = useState<Camera | null>(null);   // null: fit the whole board
+  const [hover, setHover] = useState<[number, number] | null>(null);
+  const press = useRef<{ x: number; y: number; camera: Camera; panned: boolean } | null>(null);
+
+  const hex = topology === "hex";
+  const wraps = getTopology(topology).wraps;
+  const width = hex ? cols + 0.5 : cols;   // odd hex rows stick out half a cell
+  const fit: Camera = {
+    r: rows / 2,
+    c: width / 2,
+    cellSize: Math.min(MAX_CELL, Math.max(MIN_CELL, Math.min(size.width / width, size.height / rows))),
+  };
+  const camera = moved ?? fit;
+  const { r: centerR, c: centerC, cellSize } = camera;
+
+  // Track the canvas' CSS size.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  // Draw the visible cells.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || size.width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * dpr);
+    canvas.height = Math.round(size.height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    const left = centerC - size.width / 2 / cellSize;
+    const top = centerR - size.height / 2 / cellSize;
+    const detail = cellSize >= MIN_DETAIL;
+    const font = getComputedStyle(canvas).fontFamily;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.font = `${Math.round(cellSize * 0.6)}px ${font}`;
+    ctx.lineWidth = 1;
+
+    const lastRow = Math.min(rows - 1, Math.floor(top + size.height / cellSize));
+    for (let r = Math.max(0, Math.floor(top)); r <= lastRow; r++) {
+      const shift = hex ? (r % 2) / 2 : 0;
+      const lastCol = Math.min(cols - 1, Math.floor(left - shift + size.width / cellSize));
+      for (let c = Math.max(0, Math.floor(left - shift)); c <= lastCol; c++) {
+        const i = (firstRow + r) * cols + c;
+        const x = (c + shift - left) * cellSize;
+        const y = (r - top) * cellSize;
+        const cx = x + cellSize / 2;
+        const cy = y + cellSize / 2;
+        const revealed = isRevealedAt(store, i);
+        const mines = mineCountAt(store, i);
+        const flags = flagCountAt(store, i);
+        const p = !revealed && heat ? heat[r * cols + c] : -1;
+
+        ctx.fillStyle = revealed ? COLORS.revealed : p >= 0 ? heatColor(p) : COLORS.covered;
+        ctx.fillRect(x, y, cellSize, cellSize);
+        if (detail) {
+          ctx.strokeStyle = COLORS.grid;
+          ctx.strokeRect(x + 0.5, y + 0.5, cellSize - 1, cellSize - 1);
+        }
+
+        // The engine reveals every mine when the game ends; covered mines are never drawn.
+        if (revealed && mines > 0) {
+          ctx.fillStyle = COLORS.mine;
+          ctx.beginPath();
+          ctx.arc(cx, cy, cellSize * 0.28, 0, 2 * Math.PI);
+          ctx.fill();
+          if (detail && mines > 1) {
+            ctx.fillStyle = COLORS.number;
+            ctx.fillText(String(mines), cx, cy);
+          }
+        } else if (!detail) {
+          if (flags > 0) {
+            ctx.fillStyle = COLORS.flag;
+            ctx.fillRect(x + cellSize / 4, y + cellSize / 4, cellSize / 2, cellSize / 2);
+          }
+        } else if (revealed) {
+          const n = adjacentAt(store, i);
+          if (n > 0) {
+            ctx.fillStyle = COLORS.number;
+            ctx.fillText(String(n), cx, cy);
+          }
+        } else if (flags > 0) {
+          ctx.fillStyle = COLORS.flag;
+          ctx.fillText(flags > 1 ? `⚑${flags}` : "⚑", cx, cy);
+        } else if (isQuestionedAt(store, i)) {
+          ctx.fillStyle = COLORS.question;
+          ctx.fillText("?", cx, cy);
+        }
+      }
+    }
+
+    // Wrapping boards: dashed outline, so players see the edges connect to the far side.
+    if (wraps) {
+      ctx.strokeStyle = COLORS.wrap;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      ctx.strokeRect(-left * cellSize, -top * cellSize, cols * cellSize, rows * cellSize);
+      ctx.setLineDash([]);
+    }
+  }, [store, heat, centerR, centerC, cellSize, size, rows, cols, firstRow, hex, wraps]);
+
+  // Zoom around the cursor so the cell under it stays put. Registered natively because
+  // React's wheel listener is passive and cannot prevent page scrolling.
+  const cameraRef = useRef(camera);
+  useEffect(() => {
+    cameraRef.current = camera;
+  });
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const dx = e.clientX - rect.left - rect.width / 2;
+      const dy = e.clientY - rect.top - rect.height / 2;
+      const cam = cameraRef.current;
+      const cellSize = Math.min(MAX_CELL, Math.max(MIN_CELL, cam.cellSize * (e.deltaY < 0 ? 1.15 : 1 / 1.15)));
+      setMoved({
+        r: cam.r + dy / cam.cellSize - dy / cellSize,
+        c: cam.c + dx / cam.cellSize - dx / cellSize,
+        cellSize,
+      });
+    };
+    canvas.addEventListener("wheel", onWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", onWheel);
+  }, []);
+
+  // Board cell under a pointer event, or null off the board.
+  const cellAt = (e: React.PointerEvent | React.MouseEvent): [number, number] | null => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const r = Math.floor(camera.r + (e.clientY - rect.top - rect.height / 2) / camera.cellSize);
+    const shift = hex ? (((r % 2) + 2) % 2) / 2 : 0;
+    const c = Math.floor(camera.c - shift + (e.clientX - rect.left - rect.width / 2) / camera.cellSize);
+    return r >= 0 && r < rows && c >= 0 && c < cols ? [r, c] : null;
+  };
+
+  // Heatmap chance of the hovered cell while it is covered (−1 when none is shown).
+  const chance = hover && heat && !isRevealedAt(store, (firstRow + hover[0]) * cols + hover[1])
+    ? heat[hover[0] * cols + hover[1]]
+    : -1;
+
+  return (
+    <div className="relative">
+      <canvas
+        ref={canvasRef}
+        className="w-full h-[70vh] border-2 border-white rounded-md touch-none cursor-pointer"
+        onContextMenu={e => {
+          const cell = cellAt(e);
+          if (cell) flag(e, ...cell);
+          else e.preventDefault();
+        }}
+        onPointerDown={e => {
+          // Middle button, or left+right held together, chords a revealed number.
+          const cell = cellAt(e);
+          if (chord && cell && (e.button === 1 || e.buttons === 3)) {
+            e.preventDefault();
+            if (isRevealedAt(store, (firstRow + cell[0]) * cols + cell[1])) chord(...cell);
+            return;
+          }
+          if (e.button !== 0) return;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          press.current = { x: e.clientX, y: e.clientY, camera, panned: false };
+        }}
+        onPointerMove={e => {
+          setHover(cellAt(e));
+          const p = press.current;
+          if (!p) return;
+          const dx = e.clientX - p.x;
+          const dy = e.clientY - p.y;
+          if (!p.panned && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+          p.panned = true;
+          setMoved({
+            ...p.camera,
+            r: Math.min(rows, Math.max(0, p.camera.r - dy / p.camera.cellSize)),
+            c: Math.min(width, Math.max(0, p.camera.c - dx / p.camera.cellSize)),
+          });
+        }}
+        onPointerUp={e => {
+          const p = press.current;
+          press.current = null;
+          const cell = cellAt(e);
+          if (!p || p.panned || !cell) return;
+          reveal(...cell);
+        }}
+        onPointerLeave={() => setHover(null)}
+      />
+      {hover && (
+        <span className="absolute top-2 left-2 rounded-md px-2 py-1 bg-black text-white text-sm pointer-events-none">
+          {columnLabel(hover[1])}{hover[0] + 1}
+          {chance >= 0 && ` · ${percent(chance)} chance of a mine`}
+        </span>
+      )}
+      <button
+        onClick={() => setMoved(null)}
+        className="absolute top-2 right-2 cursor-pointer border-2 border-white rounded-md px-2 py-1 bg-black text-white text-sm hover:opacity-70"
+      >
+        Fit board
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * File: src/app/CustomGameDialog.tsx
+ * Module: User Interface – Custom Game Dialog
+ * Brief: Overlay form for a custom width, height and mine count. The size is checked against
+ *        the current rules as the user types, so a board with no room for its mines (outside
+ *        the first-click area) can never be started.
+ *
+ * Inputs (props):
+ *   - initial: BoardSize                          // values the fields start with
+ *   - topology: Topology                          // current board shape and neighborhood
+ *   - rules: CapacityRules                        // multi-mine and first-click policy
+ *   - confirm(size: BoardSize) / cancel()         // results, handled upstream
+ *
+ * Outputs:
+ *   - A modal form; calls `confirm` only with a valid size.
+ *
+ * Side Effects:
+ *   - None inside this component.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-15
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import React, { useState } from "react";
+
+import type { BoardSize, CapacityRules } from "@/_util/presets";
+import type { Topology } from "@/_util/topology";
+import { MAX_SIZE, MIN_SIZE, maxMines, validateBoardSize } from "@/_util/presets";
+
+interface CustomGameDialogProps {
+  initial: BoardSize;
+  topology: Topology;
+  rules: CapacityRules;
+  confirm: (size: BoardSize) => void;
+  cancel: () => void;
+}
+
+export default function CustomGameDialog({ initial, topology, rules, confirm, cancel }: CustomGameDialogProps) {
+  // Fields are kept as text so partial input ("", "1") can be typed freely.
+  const [cols, setCols] = useState(String(initial.cols));
+  const [rows, setRows] = useState(String(initial.rows));
+  const [mines, setMines] = useState(String(initial.mines));
+
+  const size = { rows: Number(rows), cols: Number(cols), mines: Number(mines) };
+  const error = validateBoardSize(size, topology, rules);
+  // Mine limit, shown as a guide once the dimensions themselves are valid.
+  const dimensionsValid = [size.rows, size.cols].every(v => Number.isInteger(v) && v >= MIN_SIZE && v <= MAX_SIZE);
+  const limit = dimensionsValid ? maxMines(size.rows, size.cols, topology, rules) : null;
+
+  const fields = [
+    { label: "Width", value: cols, set: setCols, max: MAX_SIZE },
+    { label: "Height", value: rows, set: setRows, max: MAX_SIZE },
+    { label: "Mines", value: mines, set: setMines, max: limit ?? undefined },
+  ];
+
+  return (
+    <div
+      className="fixed top-0 bottom-0 left-0 right-0 z-20 bg-black/60 flex place-content-center flex-wrap"
+      onClick={cancel}
+    >
+      <form
+        className="border-2 border-white rounded-md p-8 flex flex-col gap-4 bg-black w-80"
+        onClick={e => e.stopPropagation()}
+        onSubmit={e => {
+          e.preventDefault();
+          if (error === null) confirm(size);
+        }}
+      >
+        <h2 className="text-2xl">Custom game</h2>
+
+        {fields.map(f => (
+          <label key={f.label} className="flex items-center justify-between gap-4">
+            {f.label}
+            <input
+              type="number"
+              value={f.value}
+              min={f.label === "Mines" ? 1 : MIN_SIZE}
+              max={f.max}
+              onChange={e => f.set(e.target.value)}
+              className="border-2 border-white rounded-md px-2 w-24 bg-black text-white"
+            />
+          </label>
+        ))}
+
+        <p className={`text-sm ${error ? "text-red-500" : "opacity-70"}`}>
+          {error ?? `Up to ${limit} mines fit with the current rules.`}
+        </p>
+
+        <div className="flex gap-3 justify-end">
+          <button
+            type="button"
+            onClick={cancel}
+            className="cursor-pointer border-2 border-white rounded-md px-3 py-1 hover:opacity-70"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={error !== null}
+            className="cursor-pointer border-2 border-white rounded-md px-3 py-1 hover:opacity-70 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Start
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
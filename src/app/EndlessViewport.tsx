@@ -0,0 +1,218 @@
+/**
+ * File: src/app/EndlessViewport.tsx
+ * Module: User Interface – Endless Board Viewport
+ * Brief: Canvas view onto the infinite endless-mode board. Only the cells inside the
+ *        viewport are drawn; drag to pan, scroll to zoom, and the usual clicks to play.
+ *
+ * Inputs (props):
+ *   - game: EndlessState                          // board to draw
+ *   - reveal(r, c) / flag(r, c) / chord(r, c)     // cell actions, handled upstream
+ *
+ * Outputs:
+ *   - A canvas filling its container's width; emits cell actions via the handlers.
+ *
+ * Side Effects:
+ *   - Observes its own size to keep the canvas sharp on resize and high-DPI screens.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-14
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+'use client'
+
+import React, { useEffect, useRef, useState } from "react";
+
+import type { EndlessState } from "@/_util/endless";
+import { CHUNK_SIZE, adjacentAt, isFlaggedAt, isMineAt, isRevealedAt } from "@/_util/endless";
+
+interface EndlessViewportProps {
+  game: EndlessState;
+  reveal: (r: number, c: number) => void;
+  flag: (r: number, c: number) => void;
+  chord: (r: number, c: number) => void;
+}
+
+// Camera: the world position (in cells, fractional) at the viewport center, and zoom.
+type Camera = { r: number; c: number; cellSize: number };
+
+const MIN_CELL = 10;
+const MAX_CELL = 64;
+const DEFAULT_CELL = 32;
+const DRAG_THRESHOLD = 4;   // px moved before a press counts as a pan instead of a click
+
+const COLORS = {
+  covered: "#ffffff",
+  revealed: "#000000",
+  grid: "#d1d5db",        // gray-300, as on the fixed grid
+  chunk: "#9ca3af",       // gray-400: chunk borders
+  number: "#ffffff",
+  flag: "#0369a1",        // sky-700
+  mine: "#dc2626",        // red-600
+};
+
+export default function EndlessViewport({ game, reveal, flag, chord }: EndlessViewportProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [camera, setCamera] = useState<Camera>({ r: 0.5, c: 0.5, cellSize: DEFAULT_CELL });
+  const press = useRef<{ x: number; y: number; camera: Camera; panned: boolean } | null>(null);
+
+  // Track the canvas' CSS size.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  // Draw the visible cells.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || size.width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * dpr);
+    canvas.height = Math.round(size.height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const { cellSize } = camera;
+    const left = camera.c - size.width / 2 / cellSize;
+    const top = camera.r - size.height / 2 / cellSize;
+    const font = getComputedStyle(canvas).fontFamily;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.font = `${Math.round(cellSize * 0.6)}px ${font}`;
+    ctx.lineWidth = 1;
+
+    for (let r = Math.floor(top); r < top + size.height / cellSize; r++) {
+      for (let c = Math.floor(left); c < left + size.width / cellSize; c++) {
+        const x = (c - left) * cellSize;
+        const y = (r - top) * cellSize;
+        const cx = x + cellSize / 2;
+        const cy = y + cellSize / 2;
+        const revealed = isRevealedAt(game, r, c);
+
+        ctx.fillStyle = revealed ? COLORS.revealed : COLORS.covered;
+        ctx.fillRect(x, y, cellSize, cellSize);
+        ctx.strokeStyle = COLORS.grid;
+        ctx.strokeRect(x + 0.5, y + 0.5, cellSize - 1, cellSize - 1);
+
+        // After a loss every mine in view is shown; otherwise mines are never read.
+        if ((revealed || game.gameOver) && isMineAt(game, r, c)) {
+          ctx.fillStyle = COLORS.mine;
+          ctx.beginPath();
+          ctx.arc(cx, cy, cellSize * 0.28, 0, 2 * Math.PI);
+          ctx.fill();
+        } else if (revealed) {
+          const n = adjacentAt(game, r, c);
+          if (n > 0) {
+            ctx.fillStyle = COLORS.number;
+            ctx.fillText(String(n), cx, cy);
+          }
+        } else if (isFlaggedAt(game, r, c)) {
+          ctx.fillStyle = COLORS.flag;
+          ctx.fillText("⚑", cx, cy);
+        }
+      }
+    }
+
+    // Chunk borders, so players can see where new territory was generated.
+    ctx.strokeStyle = COLORS.chunk;
+    ctx.beginPath();
+    for (let c = Math.ceil(left / CHUNK_SIZE) * CHUNK_SIZE; c < left + size.width / cellSize; c += CHUNK_SIZE) {
+      const x = Math.round((c - left) * cellSize) + 0.5;
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, size.height);
+    }
+    for (let r = Math.ceil(top / CHUNK_SIZE) * CHUNK_SIZE; r < top + size.height / cellSize; r += CHUNK_SIZE) {
+      const y = Math.round((r - top) * cellSize) + 0.5;
+      ctx.moveTo(0, y);
+      ctx.lineTo(size.width, y);
+    }
+    ctx.stroke();
+  }, [game, camera, size]);
+
+  // Zoom around the cursor so the cell under it stays put. Registered natively because
+  // React's wheel listener is passive and cannot prevent page scrolling.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const dx = e.clientX - rect.left - rect.width / 2;
+      const dy = e.clientY - rect.top - rect.height / 2;
+      setCamera(cam => {
+        const cellSize = Math.min(MAX_CELL, Math.max(MIN_CELL, cam.cellSize * (e.deltaY < 0 ? 1.15 : 1 / 1.15)));
+        return {
+          r: cam.r + dy / cam.cellSize - dy / cellSize,
+          c: cam.c + dx / cam.cellSize - dx / cellSize,
+          cellSize,
+        };
+      });
+    };
+    canvas.addEventListener("wheel", onWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", onWheel);
+  }, []);
+
+  // World cell under a pointer event.
+  const cellAt = (e: React.PointerEvent | React.MouseEvent): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const r = camera.r + (e.clientY - rect.top - rect.height / 2) / camera.cellSize;
+    const c = camera.c + (e.clientX - rect.left - rect.width / 2) / camera.cellSize;
+    return [Math.floor(r), Math.floor(c)];
+  };
+
+  return (
+    <div className="relative">
+      <canvas
+        ref={canvasRef}
+        className="w-full h-[70vh] border-2 border-white rounded-md touch-none cursor-pointer"
+        onContextMenu={e => {
+          e.preventDefault();
+          flag(...cellAt(e));
+        }}
+        onPointerDown={e => {
+          if (e.button === 1) {            // middle click chords
+            e.preventDefault();
+            chord(...cellAt(e));
+            return;
+          }
+          if (e.button !== 0) return;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          press.current = { x: e.clientX, y: e.clientY, camera, panned: false };
+        }}
+        onPointerMove={e => {
+          const p = press.current;
+          if (!p) return;
+          const dx = e.clientX - p.x;
+          const dy = e.clientY - p.y;
+          if (!p.panned && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+          p.panned = true;
+          setCamera({ ...p.camera, r: p.camera.r - dy / p.camera.cellSize, c: p.camera.c - dx / p.camera.cellSize });
+        }}
+        onPointerUp={e => {
+          const p = press.current;
+          press.current = null;
+          if (!p || p.panned) return;
+          const [r, c] = cellAt(e);
+          // Clicking a revealed number chords it, as on the fixed board.
+          if (isRevealedAt(game, r, c)) chord(r, c);
+          else reveal(r, c);
+        }}
+      />
+      <button
+        onClick={() => setCamera({ r: 0.5, c: 0.5, cellSize: DEFAULT_CELL })}
+        className="absolute top-2 right-2 cursor-pointer border-2 border-white rounded-md px-2 py-1 bg-black text-white text-sm hover:opacity-70"
+      >
+        Recenter
+      </button>
+    </div>
+  );
+}
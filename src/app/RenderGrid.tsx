@@ -1,14 +1,20 @@
 /**
  * File: src/app/RenderGrid.tsx
  * Module: User Interface – Grid Renderer
- * Brief: Renders the labeled Minesweeper grid (columns A–J, rows 1–10 for gridSize=10),
+ * Brief: Renders the labeled Minesweeper grid (columns A, B, … Z, AA, AB, …; rows 1..rows),
  *        and forwards cell interactions (left-click reveal, right-click flag) to parent handlers.
  *
  * Inputs (props):
- *   - gridSize: number                                 // grid dimension (EECS 581 spec: 10)
+ *   - rows: number                                     // number of board rows (EECS 581 spec: 10)
+ *   - cols: number                                     // number of board columns (EECS 581 spec: 10)
  *   - board: Cell[][]                                  // canonical board model for rendering
  *   - reveal(r: number, c: number): void               // left-click handler (uncover delegated upstream)
  *   - flag(e: React.MouseEvent, r: number, c: number)  // right-click handler (toggle flag upstream)
+ *   - chord(r: number, c: number)                      // middle-click or left+right press handler (optional)
+ *   - topology: TopologyKind                           // "hex" draws odd rows shifted half a cell;
+ *                                                      // wrapping topologies get dashed outer edges (optional)
+ *   - heat: Float64Array | null                        // row-major mine chance per covered cell, −1 for none;
+ *                                                      // shades cells green→red, percentage on hover (optional)
  *
  * Outputs:
  *   - Presentational grid with labeled headers; per-cell content (blank/number/mine/flag)
@@ -16,13 +22,17 @@
  *
  * Side Effects:
  *   - None within this component (purely presentational + event forwarding)
+ *   - Rows are memoized on their array identity; the engine copies only rows a move changed,
+ *     so large boards re-render just those rows
  *
  * External Sources / Attribution:
  *   - None; 
  *
  * EECS 581 – Project 1 Compliance Notes:
- *   - Displays a 10×10 grid with headers A–J and 1–10 when gridSize=10.
- *   - Shows covered/uncovered/flagged states and mine icon when revealed.
+ *   - Displays a 10×10 grid with headers A–J and 1–10 when rows=cols=10.
+ *   - Shows covered/uncovered/flagged/"?" states and mine icon when revealed.
+ *   - Multi-mine boards: flags and revealed mines show their count when above 1.
+ *   - Numbers are not limited to 1–8 (5×5 neighborhoods reach 24); two-digit counts render smaller.
  *   - Interactions: left-click reveal; right-click flag (flag logic enforced upstream).
  *   - Remaining flags and game status are managed by parent components.
  *
@@ -32,72 +42,194 @@
  */
 
 import type { Cell } from "@/_util/grid";
-import React from "react";
+import type { TopologyKind } from "@/_util/topology";
+import { getTopology } from "@/_util/topology";
+import React, { useEffect, useMemo, useRef } from "react";
 import { BombIcon, FlagIcon } from "lucide-react";
 
 interface RenderGridProps {
-  gridSize: number;
+  rows: number;
+  cols: number;
   board: Cell[][];
   reveal: (r: number, c: number) => void;
   flag: (e: React.MouseEvent, r: number, c: number) => void;
+  chord?: (r: number, c: number) => void;
+  topology?: TopologyKind;
+  heat?: Float64Array | null;
 }
 
+// Spreadsheet-style column label for a 0-based index: 0 → A, 25 → Z, 26 → AA, 27 → AB, …
+export function columnLabel(index: number): string {
+  let label = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+// Icon with a small count beside it when a multi-mine cell holds more than one mine/flag.
+function Counted({ count, children }: { count: number; children: React.ReactNode }) {
+  if (count <= 1) return <>{children}</>;
+  return (
+    <span className="flex items-center">
+      {children}
+      <span className="text-xs font-bold">{count}</span>
+    </span>
+  );
+}
+
+// Latest click handlers, read at event time so memoized rows need not re-render when the
+// parent passes new function objects.
+type Handlers = Pick<RenderGridProps, "reveal" | "flag" | "chord">;
+
+// Grid placement for the hex "brick" layout (square boards use the default auto-flow).
+const place = (hex: boolean, gridRow: number, halfCol: number): React.CSSProperties =>
+  hex ? { gridRow, gridColumn: `${halfCol} / span 2` } : {};
+
+// Wrapping boards: draw the outer edges dashed so players see they connect to the far side.
+const WRAP_EDGE = "2px dashed var(--color-amber-500)";
+const wrapEdges = (rows: number, cols: number, r: number, c: number): React.CSSProperties => ({
+  ...(r === 0 && { borderTop: WRAP_EDGE }),
+  ...(r === rows - 1 && { borderBottom: WRAP_EDGE }),
+  ...(c === 0 && { borderLeft: WRAP_EDGE }),
+  ...(c === cols - 1 && { borderRight: WRAP_EDGE }),
+});
+
+// Heatmap shading: green for safe through yellow to red for a certain mine.
+export const heatColor = (p: number) => `hsl(${Math.round(120 * (1 - p))} 75% 70%)`;
+
+// Heatmap percentage; tiny but nonzero chances read "<1%" so they are not mistaken for safe.
+export function percent(p: number): string {
+  if (p > 0 && p < 0.005) return "<1%";
+  if (p < 1 && p > 0.995) return ">99%";
+  return `${Math.round(p * 100)}%`;
+}
+
+interface GridRowProps {
+  row: Cell[];
+  r: number;
+  rows: number;
+  cols: number;
+  hex: boolean;
+  wraps: boolean;
+  handlers: React.RefObject<Handlers>;
+  heat?: Float64Array;
+}
+
+// One board row (header + cells). The engine shares unchanged rows between moves, so
+// memoizing on the row array re-renders only rows a move actually touched.
+const GridRow = React.memo(function GridRow({ row, r, rows, cols, hex, wraps, handlers, heat }: GridRowProps) {
+  return (
+    <>
+      {/* [Original] Row header: numeric label (1-based). */}
+      <div
+        className="text-center aspect-square flex items-center justify-center"
+        style={place(hex, r + 2, 1)}
+      >
+        {r + 1}
+      </div>
+
+      {/* [Original] Row cells with click/flag handlers; purely visual decisions here. */}
+      {row.map((cell, c) => {
+        // Heatmap chance for covered, unflagged cells (−1 / absent when not shown).
+        const p = !cell.revealed && heat ? heat[c] : -1;
+        return (
+          <div
+            key={`${r}-${c}`}
+            onClick={() => handlers.current.reveal(r, c)}                 // left-click reveal
+            onContextMenu={(e) => handlers.current.flag(e, r, c)}        // right-click flag
+            onMouseDown={(e) => {
+              // Middle button, or left+right held together, chords a revealed number.
+              const { chord } = handlers.current;
+              if (chord && cell.revealed && (e.button === 1 || e.buttons === 3)) {
+                e.preventDefault();
+                chord(r, c);
+              }
+            }}
+            className={`group flex items-center justify-center select-none cursor-pointer aspect-square border border-gray-300 ${hex ? "rounded-md" : ""}`}
+            title={p >= 0 ? `${percent(p)} chance of a mine` : undefined}
+            // [Original] Simple state-driven styles; parent owns logic/state transitions.
+            style={{
+              ...place(hex, r + 2, 3 + 2 * c + (r % 2)),
+              ...(wraps && wrapEdges(rows, cols, r, c)),
+              background: cell.revealed ? "black" : p >= 0 ? heatColor(p) : "white",
+              color: cell.revealed ? "white" : "inherit", // ensure numbers are visible on dark bg
+            }}
+          >
+            {cell.revealed
+              // [Original] Revealed: show mine icon if mined, otherwise show number if > 0.
+              ? (cell.isMine && <Counted count={cell.mineCount}><BombIcon color="red" /></Counted>)
+                // Extended neighborhoods and multi-mine cells can exceed 8: shrink two-digit counts.
+                || (cell.adjacent > 0 && <span className={cell.adjacent >= 10 ? "text-sm" : ""}>{cell.adjacent}</span>)
+              // [Original] Covered: show flag icon if flagged, "?" if question-marked; otherwise blank.
+              : (cell.flagged && <Counted count={cell.flagCount}><FlagIcon color="var(--color-sky-700)" /></Counted>)
+                || <>
+                  {cell.questioned && <span className={`font-bold text-amber-600 ${p >= 0 ? "group-hover:hidden" : ""}`}>?</span>}
+                  {/* Heatmap: the percentage while hovering. */}
+                  {p >= 0 && <span className="hidden group-hover:inline text-xs font-bold text-black">{percent(p)}</span>}
+                </>}
+          </div>
+        );
+      })}
+    </>
+  );
+});
+
 // [Original] Presentational grid that renders headers and cells; game rules live upstream.
-export default function RenderGrid({ gridSize, board, reveal, flag }: RenderGridProps) {
-  // [Original] Build column labels A.. based on gridSize (A–J for 10).
-  const charArr = Array.from({ length: gridSize }, (_, i) => String.fromCharCode(65 + i));
-  
+export default function RenderGrid({ rows, cols, board, reveal, flag, chord, topology = "square", heat = null }: RenderGridProps) {
+  const handlers = useRef<Handlers>({ reveal, flag, chord });
+  useEffect(() => {
+    handlers.current = { reveal, flag, chord };
+  });
+
+  // Heatmap split into rows once per heatmap, so unchanged rows keep their memoized render.
+  const heatRows = useMemo(
+    () => heat && Array.from({ length: rows }, (_, r) => heat.subarray(r * cols, (r + 1) * cols)),
+    [heat, rows, cols],
+  );
+
+  // [Original] Build column labels A.. based on cols (A–J for 10, continuing AA, AB… past Z).
+  const charArr = Array.from({ length: cols }, (_, i) => columnLabel(i));
+
+  // Hex boards use a half-cell column track so odd rows can sit half a cell to the right
+  // (a "brick" layout, where each cell touches exactly its 6 hex neighbors).
+  const hex = topology === "hex";
+  const wraps = getTopology(topology).wraps;
+
   return (
     <div
       className="grid w-full h-full"
       // [Original] Reserve an extra row & column for header labels.
       style={{
-        gridTemplateColumns: `repeat(${gridSize + 1}, 1fr)`, // +1 for row labels
-        gridTemplateRows: `repeat(${gridSize + 1}, 1fr)`,    // +1 for column labels
+        gridTemplateColumns: hex
+          ? `repeat(${2 * cols + 3}, 1fr)`   // half-cell tracks: 2 for row labels, +1 for the shift
+          : `repeat(${cols + 1}, 1fr)`,      // +1 for row labels
+        gridTemplateRows: `repeat(${rows + 1}, 1fr)`,    // +1 for column labels
       }}
     >
       {/* [Original] Top-left empty corner between row/column headers. */}
-      <div data-empty-div />
+      <div data-empty-div style={place(hex, 1, 1)} />
 
-      {/* [Original] Column headers: A–J (or up to gridSize). */}
-      {charArr.map((c) => (
-        <div key={c} className="text-center aspect-square flex items-center justify-center">
+      {/* [Original] Column headers: A–J (or up to cols). */}
+      {charArr.map((c, i) => (
+        <div key={c} className="text-center aspect-square flex items-center justify-center" style={place(hex, 1, 3 + 2 * i)}>
           {c}
         </div>
       ))}
 
-      {/* [Original] For each board row: render row header (1–10) followed by its cells. */}
+      {/* [Original] For each board row: render row header (1..rows) followed by its cells. */}
       {board.map((row, r) => (
-        <React.Fragment key={`row-${r}`}>
-          {/* [Original] Row header: numeric label (1-based). */}
-          <div
-            key={`row-${r}-h`}
-            className="text-center aspect-square flex items-center justify-center"
-          >
-            {r + 1}
-          </div>
-
-          {/* [Original] Row cells with click/flag handlers; purely visual decisions here. */}
-          {row.map((cell, c) => (
-            <div
-              key={`${r}-${c}`}
-              onClick={() => reveal(r, c)}                 // left-click reveal
-              onContextMenu={(e) => flag(e, r, c)}        // right-click flag
-              className="flex items-center justify-center select-none cursor-pointer aspect-square border border-gray-300"
-              // [Original] Simple state-driven styles; parent owns logic/state transitions.
-              style={{
-                background: cell.revealed ? "black" : "white",
-                color: cell.revealed ? "white" : "inherit", // ensure numbers are visible on dark bg
-              }}
-            >
-              {cell.revealed
-                // [Original] Revealed: show mine icon if mined, otherwise show number if > 0.
-                ? (cell.isMine && <BombIcon color="red" />) || (cell.adjacent > 0 && cell.adjacent)
-                // [Original] Covered: show flag icon if flagged; otherwise blank.
-                : (cell.flagged && <FlagIcon color="var(--color-sky-700)" />)}
-            </div>
-          ))}
-        </React.Fragment>
+        <GridRow
+          key={`row-${r}`}
+          row={row}
+          r={r}
+          rows={rows}
+          cols={cols}
+          hex={hex}
+          wraps={wraps}
+          handlers={handlers}
+          heat={heatRows?.[r]}
+        />
       ))}
     </div>
   );
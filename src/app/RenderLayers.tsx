@@ -0,0 +1,141 @@
+/**
+ * File: src/app/RenderLayers.tsx
+ * Module: User Interface – Layered Board Renderer
+ * Brief: Shows a layered (3D) board as one <RenderGrid/> per layer, either one layer at a time
+ *        behind layer tabs or all layers side by side. Flat boards render as a plain grid.
+ *        Layers above MAX_GRID_CELLS cells are drawn on a <BoardCanvas/> instead.
+ *
+ * Inputs (props):
+ *   - RenderGrid's props for the whole board (layers stacked in `board`, `rows` = all of them)
+ *   - store: CompactBoard                              // the same board as the engine stores it (for the canvas)
+ *   - layers: number                                   // how many layers `board` holds
+ *   - heat: Float64Array | null                        // heatmap for the whole board (optional)
+ *
+ * Outputs:
+ *   - Layer tabs and grid(s); cell events are forwarded with board (stacked) row numbers,
+ *     so parents handle them exactly like flat-board events.
+ *
+ * Side Effects:
+ *   - None; only the selected tab is local state.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-16
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+import React, { useMemo, useState } from "react";
+
+import BoardCanvas from "./BoardCanvas";
+import RenderGrid from "./RenderGrid";
+import type { CompactBoard } from "@/_util/compactBoard";
+import type { Cell } from "@/_util/grid";
+import type { TopologyKind } from "@/_util/topology";
+import { fromCoord } from "@/_util/topology";
+
+interface RenderLayersProps {
+  rows: number;
+  cols: number;
+  layers: number;
+  board: Cell[][];
+  store: CompactBoard;
+  reveal: (r: number, c: number) => void;
+  flag: (e: React.MouseEvent, r: number, c: number) => void;
+  chord?: (r: number, c: number) => void;
+  topology?: TopologyKind;
+  heat?: Float64Array | null;
+}
+
+const TAB = "cursor-pointer border-2 rounded-md px-3 py-1 hover:opacity-70";
+
+// Largest layer drawn as DOM cells (the old 50×50 custom limit); bigger ones go on a canvas.
+const MAX_GRID_CELLS = 2500;
+
+export default function RenderLayers({ rows, cols, layers, board, store, reveal, flag, chord, topology, heat = null }: RenderLayersProps) {
+  const [view, setView] = useState<number | "all">(0);
+  const layerRows = rows / layers;
+
+  // Heatmap split per layer once per heatmap (the grids memoize on it).
+  const layerHeat = useMemo(
+    () => heat && Array.from({ length: layers }, (_, l) => heat.subarray(l * layerRows * cols, (l + 1) * layerRows * cols)),
+    [heat, layers, layerRows, cols],
+  );
+
+  const canvas = layerRows * cols > MAX_GRID_CELLS;
+
+  if (layers <= 1) {
+    return canvas
+      ? <BoardCanvas key={`${rows}x${cols}`} store={store} rows={rows} cols={cols} reveal={reveal} flag={flag} chord={chord} topology={topology} heat={heat} />
+      : <RenderGrid rows={rows} cols={cols} board={board} reveal={reveal} flag={flag} chord={chord} topology={topology} heat={heat} />;
+  }
+
+  const shown = view === "all" ? Array.from({ length: layers }, (_, l) => l) : [Math.min(view, layers - 1)];
+
+  // One layer's grid; its row numbers are translated back to the stacked board.
+  const layerGrid = (layer: number) => {
+    const at = (r: number, c: number) => fromCoord(layerRows, { layer, r, c });
+    if (canvas) {
+      return (
+        <BoardCanvas
+          key={`${layer}:${layerRows}x${cols}`}
+          store={store}
+          rows={layerRows}
+          cols={cols}
+          firstRow={layer * layerRows}
+          reveal={(r, c) => reveal(...at(r, c))}
+          flag={(e, r, c) => flag(e, ...at(r, c))}
+          chord={chord && ((r, c) => chord(...at(r, c)))}
+          topology={topology}
+          heat={layerHeat?.[layer]}
+        />
+      );
+    }
+    return (
+      <RenderGrid
+        rows={layerRows}
+        cols={cols}
+        // Slicing keeps the row arrays themselves, so memoized rows still skip re-rendering.
+        board={board.slice(layer * layerRows, (layer + 1) * layerRows)}
+        reveal={(r, c) => reveal(...at(r, c))}
+        flag={(e, r, c) => flag(e, ...at(r, c))}
+        chord={chord && ((r, c) => chord(...at(r, c)))}
+        topology={topology}
+        heat={layerHeat?.[layer]}
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {/* Layer tabs, plus a side-by-side view of every layer. */}
+      <div className="flex gap-2 place-content-center flex-wrap">
+        {Array.from({ length: layers }, (_, l) => (
+          <button
+            key={l}
+            onClick={() => setView(l)}
+            className={`${TAB} ${shown.length === 1 && shown[0] === l ? "border-white" : "border-gray-600 text-gray-400"}`}
+          >
+            Layer {l + 1}
+          </button>
+        ))}
+        <button
+          onClick={() => setView("all")}
+          className={`${TAB} ${view === "all" ? "border-white" : "border-gray-600 text-gray-400"}`}
+          title="Show every layer side by side"
+        >
+          All layers
+        </button>
+      </div>
+
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${shown.length}, 1fr)` }}>
+        {shown.map(layer => (
+          <div key={layer} className="flex flex-col gap-1">
+            {view === "all" && <span className="text-center text-sm opacity-70">Layer {layer + 1}</span>}
+            {layerGrid(layer)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -6,10 +6,14 @@
  *
  * Inputs (props):
  *   - state: string | null   // expected values: "won" | "lost" | null
+ *   - stats: GameStats | null // 3BV, 3BV/s, clicks, efficiency, ms time and layout (optional);
+ *                              // practice games are labeled as such, not shown as records
+ *   - children: ReactNode     // extra result lines, e.g. the endless-mode score (optional)
  *   - close: () => void      // callback invoked to close the modal (reset handled upstream)
  *
  * Outputs:
- *   - A presentational overlay with a status headline; emits onClick via `close`.
+ *   - A presentational overlay with a status headline and, when given, the game's
+ *     statistics; emits onClick via `close`.
  *
  * Side Effects:
  *   - None inside this component; it delegates closing to the parent through `close()`.
@@ -26,20 +30,27 @@
  * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
  */
 
+import type React from "react";
+
+import type { GameStats } from "@/_util/stats";
+import { DISTRIBUTIONS } from "@/_util/distribution";
+
 interface RenderModalProps {
   state: string | null;
+  stats?: GameStats | null;
+  children?: React.ReactNode;
   close: () => void;
 }
 
 // [Original] Full-screen modal overlay; clicking anywhere dismisses it.
-export default function RenderModal({ state, close }: RenderModalProps) {
+export default function RenderModal({ state, stats, children, close }: RenderModalProps) {
   return (
     <div
       className="absolute top-0 bottom-0 left-0 right-0 z-10 bg-black/60 flex place-content-center flex-wrap"
       onClick={close}
     >
       <div
-        className="border-2 border-white rounded-md p-10 flex place-content-center flex-wrap bg-black"
+        className="border-2 border-white rounded-md p-10 flex flex-col items-center gap-6 bg-black"
       >
         <h1
           className="text-4xl"
@@ -51,6 +62,33 @@ export default function RenderModal({ state, close }: RenderModalProps) {
           {/* [Original] Simple headline; guard against null to avoid "You null!" */}
           You {state || ""}!
         </h1>
+
+        {/* Competitive stats: time to the millisecond and how close play was to the 3BV minimum. */}
+        {stats?.practice && (
+          <span
+            className="text-sm font-bold text-amber-500"
+            title="Undo was used after a loss; this game does not count toward records"
+          >
+            PRACTICE: not a record
+          </span>
+        )}
+        {stats && (
+          <dl className={`grid grid-cols-2 gap-x-6 gap-y-1 text-sm ${stats.practice ? "opacity-60" : ""}`}>
+            <dt className="opacity-70">Time</dt>
+            <dd className="text-right">{(stats.elapsedMs / 1000).toFixed(3)}s</dd>
+            <dt className="opacity-70">3BV</dt>
+            <dd className="text-right">{stats.bbbv}</dd>
+            <dt className="opacity-70">3BV/s</dt>
+            <dd className="text-right">{stats.bbbvPerSecond.toFixed(2)}</dd>
+            <dt className="opacity-70">Clicks</dt>
+            <dd className="text-right">{stats.clicks}</dd>
+            <dt className="opacity-70">Efficiency</dt>
+            <dd className="text-right">{Math.round(stats.efficiency)}%</dd>
+            <dt className="opacity-70">Layout</dt>
+            <dd className="text-right">{DISTRIBUTIONS[stats.distribution].label}</dd>
+          </dl>
+        )}
+        {children}
       </div>
     </div>
   );
@@ -0,0 +1,148 @@
+/**
+ * File: src/app/endless/page.tsx
+ * Module: User Interface – Endless Mode (Client Component)
+ * Brief: Infinite Minesweeper. The board has no edges: mines are generated chunk by chunk
+ *        from the seed as the player explores, and the score is the number of safe cells
+ *        revealed before hitting a mine.
+ *
+ * Inputs:
+ *   - User interactions: pan/zoom and cell clicks on <EndlessViewport/>, density select,
+ *     seed entry, restart.
+ *
+ * Outputs:
+ *   - UI: the viewport, a HUD (score, flags placed, seed) and the end-of-game modal.
+ *
+ * Side Effects:
+ *   - Picks a random seed on mount (client only, so server and client render the same first frame).
+ *   - Resumes an oversized flood fill once per animation frame until it is done.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-14
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+'use client'
+
+import React, { useEffect, useReducer, useState } from 'react';
+import Link from 'next/link';
+import { FlagIcon, TrophyIcon } from "lucide-react";
+
+import EndlessViewport from "../EndlessViewport";
+import RenderModal from "../RenderModal";
+import { ENDLESS_DENSITIES, applyEndlessAction, createEndless } from '@/_util/endless';
+import { parseSeed, randomSeed } from '@/_util/rng';
+
+export default function EndlessPage() {
+  const [game, dispatch] = useReducer(applyEndlessAction, { seed: 0, density: ENDLESS_DENSITIES[0] }, createEndless);
+  const [seedInput, setSeedInput] = useState('');
+  const [showModal, setShowModal] = useState(false);
+
+  const { seed, density } = game.config;
+
+  // Start on a random seed once mounted.
+  useEffect(() => {
+    dispatch({ type: 'reset', config: { seed: randomSeed() } });
+  }, []);
+
+  // A flood fill too large for one action continues over the next frames.
+  useEffect(() => {
+    if (game.pending.length === 0) return;
+    const frame = requestAnimationFrame(() => dispatch({ type: 'continue' }));
+    return () => cancelAnimationFrame(frame);
+  }, [game.pending]);
+
+  // Show the result when a mine is hit; dismissing it leaves the final board on screen.
+  useEffect(() => {
+    setShowModal(game.gameOver !== null);
+  }, [game.gameOver]);
+
+  function playSeed() {
+    const parsed = parseSeed(seedInput);
+    if (parsed === null) return;
+    dispatch({ type: 'reset', config: { seed: parsed } });
+    setSeedInput('');
+  }
+
+  return (
+    <div className="w-7/12 m-auto">
+      <div className="flex gap-5 place-content-center items-center mt-10 flex-wrap">
+        <Link href="/" className='border-2 border-white rounded-md p-2 text-white hover:opacity-70'>
+          Back to game
+        </Link>
+
+        {/* Mine density; changing it starts a new board on the same seed. */}
+        <div className="flex items-center">
+          <label className="mr-2">Density:</label>
+          <select
+            value={density}
+            onChange={e => dispatch({ type: 'reset', config: { density: Number(e.target.value) } })}
+            className="border-2 border-white rounded-md p-2 bg-black text-white"
+          >
+            {ENDLESS_DENSITIES.map(d => (
+              <option key={d} value={d}>{Math.round(d * 100)}%</option>
+            ))}
+          </select>
+        </div>
+
+        <button
+          onClick={() => dispatch({ type: 'reset', config: { seed: randomSeed() } })}
+          className='cursor-pointer border-2 border-white rounded-md p-2 text-white hover:opacity-70'
+        >
+          New board
+        </button>
+
+        {/* HUD: score (safe cells revealed) and flags placed. */}
+        <div className="ml-auto flex gap-5 items-center border-2 border-white rounded-md p-2">
+          <span className="flex items-center gap-1" title="Safe cells revealed">
+            <TrophyIcon color="var(--color-amber-500)"/>
+            {game.score}
+          </span>
+          <span className="flex items-center gap-1" title="Flags placed">
+            <FlagIcon color="var(--color-sky-700)"/>
+            {game.flags}
+          </span>
+          <span className="text-sm opacity-80" title="Seed for this board">
+            Seed {seed}
+          </span>
+        </div>
+
+        {/* Play a specific seed (numbers are used directly, other text is hashed). */}
+        <form
+          className="flex items-center gap-2 border-2 border-white rounded-md p-2"
+          onSubmit={e => { e.preventDefault(); playSeed(); }}
+        >
+          <input
+            type="text"
+            value={seedInput}
+            placeholder="play seed…"
+            onChange={e => setSeedInput(e.target.value)}
+            className='px-2 w-28'
+          />
+          <button type="submit" className='cursor-pointer hover:opacity-70'>
+            Play
+          </button>
+        </form>
+      </div>
+
+      <p className="text-sm opacity-70 text-center mt-3">
+        Drag to pan, scroll to zoom. Click to reveal, right-click to flag, click a satisfied number to chord.
+      </p>
+
+      <div className="mt-5 relative">
+        <EndlessViewport
+          game={game}
+          reveal={(r, c) => dispatch({ type: 'reveal', r, c })}
+          flag={(r, c) => dispatch({ type: 'flag', r, c })}
+          chord={(r, c) => dispatch({ type: 'chord', r, c })}
+        />
+        {showModal && (
+          <RenderModal state={game.gameOver} close={() => setShowModal(false)}>
+            <p>Score: {game.score}</p>
+          </RenderModal>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,12 +7,15 @@
  *
  * Inputs:
  *   - User interactions:
- *       • Number input (mines: 10–20) to set difficulty
+ *       • Level select (Beginner / Intermediate / Expert presets, or a Custom size dialog)
  *       • Reset button to start a new game
- *       • Grid actions from <RenderGrid/>: left-click (reveal), right-click (flag)
+ *       • Heatmap toggle (mine chance of every covered cell; percentage on hover)
+ *       • Grid actions from <RenderGrid/>: left-click (reveal), right-click (flag),
+ *         click / middle-click / left+right on a satisfied number (chord)
  *   - Child components:
- *       • <RenderGrid/> props: { board, gridSize, reveal, flag }
- *       • <RenderModal/> props: { state: 'won'|'lost', close: () => void }
+ *       • <RenderLayers/> props: { board, store, rows, cols, layers, reveal, flag, chord } (one
+ *         <RenderGrid/> per layer of a 3D board, behind layer tabs or side by side)
+ *       • <RenderModal/> props: { state: 'won'|'lost', stats: GameStats | null, close: () => void }
  *
  * Outputs:
  *   - UI: controls bar (timer, flags remaining), 10×10 grid with labels, win/loss modal
@@ -20,13 +23,15 @@
  *
  * Side Effects:
  *   - Starts/stops an interval timer while the game is active
- *   - Resets game state when mines count changes or when user clicks Reset
+ *   - Resets game state when the level changes or when user clicks Reset
+ *   - Remembers the chosen level in localStorage
+ *   - Recomputes the optional mine-probability heatmap after each move (deferred)
  *
  * External Sources / Attribution:
  *   - None;
  *
  * EECS 581 – Project 1 Compliance Notes:
- *   - Grid: fixed 10×10; mines: user-selected 10–20; random placement
+ *   - Grid: preset or custom size (the original 10×10 with 10–20 mines is a valid custom size); random placement
  *   - First click guaranteed safe (mines placed excluding the first-click cell)
  *   - Flagged cells cannot be uncovered; flags remaining = mines − placed flags
  *   - Reveal numbers 0–8; zero triggers recursive flood-reveal
@@ -44,41 +49,61 @@
  *  - Added hint feature (max 3 uses) to suggest a safe move.
  *  - Authors: Kiara [Sam] Grimsley, Reeny Huang, Audrey Pan, Ella Nguyen, Hart Nurnberg
  *  - External Sources: None
+
+ * Last Modified: 2025-10-12
+ *  - Game rules moved into the framework-free engine (`@/_util/engine`); the page, the AIs
+ *    and the hint now dispatch reveal/flag/chord/reset actions instead of setting state.
  */
 
 'use client'
 
-import type { Cell } from "@/_util/grid"
-
-import React, { useEffect, useState } from 'react';
+import React, { useDeferredValue, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import Link from 'next/link';
 import { FlagIcon, TimerIcon } from "lucide-react";
 
 import RenderModal from "./RenderModal"
-import RenderGrid from "./RenderGrid";
-import {
-  createEmptyBoard,
-  placeMines,
-  cloneBoard,
-  floodFill,
-  computeAdjacency,
-} from '@/_util/grid';
-
-import {
-  easyAi,
-  mediumAi,
-  hardAi,
-  hint,
-  resetHints,
-} from './AiBehavior'; // Placeholder for AI strategies
-
-// [Original] Fixed grid size per spec (10×10).
-const GRID_SIZE = 10;
+import RenderLayers from "./RenderLayers";
+import CustomGameDialog from "./CustomGameDialog";
+import { AI_STRATEGIES, DEFAULT_AI, aiStrategy } from '@/_util/ai/registry';
+import { hint, resetHints } from '@/_util/ai/hint';
+import { decodeBoard, encodeBoard } from '@/_util/boardCode';
+import type { Distribution, DistributionKind } from '@/_util/distribution';
+import { DISTRIBUTIONS, PATTERN_TEMPLATES, UNIFORM, parseTemplate } from '@/_util/distribution';
+import { applyAction, createGame } from '@/_util/engine';
+import type { FirstClickKind, FirstClickPolicy } from '@/_util/firstClick';
+import { DEFAULT_FIRST_CLICK, FIRST_CLICK_LABELS } from '@/_util/firstClick';
+import { mineHeatmap } from '@/_util/heatmap';
+import { moveActions, playerView } from '@/_util/playerView';
+import type { HistoryAction } from '@/_util/history';
+import { canRedo, canUndo } from '@/_util/history';
+import type { Difficulty, DifficultyKind } from '@/_util/presets';
+import { DEFAULT_DIFFICULTY, PRESETS, boardSize, describeBoard, loadDifficulty, maxMines, saveDifficulty } from '@/_util/presets';
+import type { ActionSource } from '@/_util/replay';
+import { applyRecordedAction, createRecordedGame, saveReplay } from '@/_util/replay';
+import type { Rng } from '@/_util/rng';
+import { computeStats } from '@/_util/stats';
+import type { NeighborhoodKind, TopologyKind } from '@/_util/topology';
+import { createRng, deriveSeed, parseSeed, randomSeed } from '@/_util/rng';
+import { MAX_LAYERS, NEIGHBORHOODS, TOPOLOGIES, getTopology } from '@/_util/topology';
+
+
+// Sub-stream of the game seed used for AI and hint choices (mine placement uses the seed itself).
+const AI_RNG_STREAM = 1;
+
+// "Opening of at least N cells" first-click policy: starting and largest N offered.
+const DEFAULT_OPENING_CELLS = 20;
+const MAX_OPENING_CELLS = 200;
+
+// Typed opening size, clamped to the offered range (the default when not a whole number).
+function openingSize(text: string): number {
+  const n = Number(text);
+  return Number.isInteger(n) ? Math.max(2, Math.min(MAX_OPENING_CELLS, n)) : DEFAULT_OPENING_CELLS;
+}
 
 export default function MinesweeperPage() {
-  // [Original] Default mine count within allowed range (10–20).
-  const [mines, setMines] = useState(15);
-  // Input field state to fix typing mine values
-  const [inputValue, setInputValue] = useState(mines.toString());
+  // Board size: a classic preset or a custom size (saved between visits).
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const [showCustom, setShowCustom] = useState(false);
 
   // New state for game mode: 'interactive' or 'automatic'
   const [aiMode, setAiMode] = useState<'interactive' | 'automatic' | 'off'>('off');
@@ -86,56 +111,120 @@ export default function MinesweeperPage() {
   const [isUserTurn, setIsUserTurn] = useState(true);
 
   // AI Difficulty Level
-  const [aiDifficulty, setAiDifficulty] = useState<'easy' | 'medium' | 'hard'>('easy');
+  const [aiDifficulty, setAiDifficulty] = useState(DEFAULT_AI.name);
 
   // Track hint used and available.
   const [hintsUsed, setHintsUsed] = useState(0);
   const [hintsAvailable, setHintsAvailable] = useState(true);
 
-  // [Original] Canonical game state.
-  const [board, setBoard] = useState<Cell[][]>(() => createEmptyBoard(GRID_SIZE, GRID_SIZE));
-  const [started, setStarted] = useState(false);                        // has the first reveal occurred?
-  const [gameOver, setGameOver] = useState<null | 'lost' | 'won'>(null); // terminal state marker
-  const [flagsLeft, setFlagsLeft] = useState(mines);                    // remaining flags (mines − placed)
-  const [seconds, setSeconds] = useState(0);                            // elapsed time in seconds
+  // Chording: clicking a satisfied number opens all its unflagged neighbors (can be turned off).
+  const [chording, setChording] = useState(true);
+
+  // Right-click cycles covered → flag → "?" → covered when enabled; otherwise it only toggles flags.
+  const [questionMarks, setQuestionMarks] = useState(false);
+
+  // Board topology (square 8-neighbor grid, hexagonal 6-neighbor grid, …).
+  const [topology, setTopology] = useState<TopologyKind>('square');
+
+  // Neighborhood shape on square/torus boards (3×3, knight's move, 5×5, orthogonal-only).
+  const [neighborhood, setNeighborhood] = useState<NeighborhoodKind>('moore');
+
+  // 3D boards: how many copies of the level's board are stacked (1 = a flat board).
+  const [layers, setLayers] = useState(1);
+
+  // No-guess generation toggle (applied to the engine config on reset).
+  const [noGuess, setNoGuess] = useState(false);
+
+  // Multi-mine variant: cells hold 1–3 mines, numbers count mines, right-click cycles flag counts.
+  const [multiMine, setMultiMine] = useState(false);
+
+  // What the first click is guaranteed (an opening, just a safe cell, nothing, or a big opening).
+  const [firstClick, setFirstClick] = useState<FirstClickPolicy>(DEFAULT_FIRST_CLICK);
+  const [openingInput, setOpeningInput] = useState(String(DEFAULT_OPENING_CELLS));
+
+  // Mine distribution strategy (uniform, clustered, …; "pattern" carries its template text).
+  const [distribution, setDistribution] = useState<Distribution>(UNIFORM);
+
+  // Heatmap overlay (a training aid): shades covered cells by their chance of hiding a mine.
+  const [showHeatmap, setShowHeatmap] = useState(false);
+
+  // Practice mode: undo is allowed even after a loss, but such games are marked as practice.
+  const [practiceMode, setPracticeMode] = useState(false);
+
+  // Seed entry box; the active seed lives in the game config.
+  const [seedInput, setSeedInput] = useState('');
+  const aiRng = useRef<Rng>(createRng(deriveSeed(0, AI_RNG_STREAM)));
+
+  // Canonical game state lives in the rules engine; every move is dispatched into it
+  // through the undo/redo history (one history step per click, hint, or AI turn), and
+  // every accepted move is recorded for the replay viewer.
+  // Starts at seed 0 for the server render; reset() draws a random seed on mount.
+  const [recorded, send] = useReducer(applyRecordedAction, DEFAULT_DIFFICULTY, d => createRecordedGame(createGame({
+    ...boardSize(d),
+    seed: 0,
+    noGuess: false,
+    multiMine: false,
+    topology: 'square',
+    neighborhood: 'moore',
+    layers: 1,
+    firstClick: DEFAULT_FIRST_CLICK,
+    distribution: UNIFORM,
+  }), 0));
+  const { history, replay } = recorded;
+  const game = history.present;
+  const { board, started, gameOver, flagsLeft, noGuessFallback } = game;
+  const { seed } = game.config;
+  const [seconds, setSeconds] = useState(0); // elapsed time in seconds (HUD only; stats use recorded ms)
+  // End-of-game numbers (3BV, efficiency, ms time), computed once the game is decided.
+  const stats = useMemo(() => (gameOver ? computeStats(game, replay) : null), [gameOver, game, replay]);
+  // The heatmap follows a deferred copy of the game, so clicks render first and the solver
+  // catches up right after (large boards fall back to sampling to keep that short).
+  const deferredGame = useDeferredValue(game);
+  const heatmap = useMemo(() => (showHeatmap ? mineHeatmap(deferredGame) : null), [showHeatmap, deferredGame]);
+
+  // The saved level only exists in the browser, so read it after mount.
+  useEffect(() => {
+    setDifficulty(loadDifficulty());
+  }, []);
 
-  // [Original] If mines setting changes, start a fresh game.
+  // [Original] If the board size changes, start a fresh game.
   useEffect(() => {
     reset();
-    setInputValue(mines.toString());
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [mines]);
+  }, [difficulty]);
+
+  // Toggling no-guess generation only affects boards that have not been laid out yet.
+  useEffect(() => {
+    reset(seed);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [noGuess]);
+
+  // A different topology or ruleset needs a fresh board.
+  useEffect(() => {
+    reset();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [topology, neighborhood, layers, multiMine, firstClick, distribution]);
 
   // If mode or ai difficulty changes, reset the game and set turn to user
   useEffect(() => {
     reset();
     setIsUserTurn(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [aiMode, aiDifficulty]);
 
   // AI Moves
   useEffect(() => {
-    if ((aiMode === 'automatic' || (aiMode === 'interactive' && !isUserTurn)) && !gameOver) {
+    if ((aiMode === 'automatic' || (aiMode === 'interactive' && !isUserTurn)) && !game.gameOver) {
       const aiMoveInterval = setInterval(() => {
-          // Build context object from current React state
-        const ctx = {
-          board,
-          gridSize: GRID_SIZE,
-          mines,
-          started,
-          setBoard,
-          setStarted,
-          setFlagsLeft,      // Medium uses this
-          setGameOver,
-          checkWin: (b: Cell[][]) => checkWin(b),
-          revealMines: () => revealMines(),
-        };
-        // Simple AI: randomly reveal a cell that is not revealed or flagged
-        if (aiDifficulty === 'easy') {
-          easyAi(ctx); // Placeholder for easy AI logic
-        } else if (aiDifficulty === 'medium') {
-          mediumAi(ctx); // Placeholder for medium AI logic
-        } else {
-          hardAi(ctx); // Placeholder for hard AI logic
+        // The AI sees only the player's view and returns its move; the move is validated and
+        // everything it does this turn is committed as a single undoable step.
+        const view = playerView(game);
+        const bot = aiStrategy(aiDifficulty);
+        const move = bot.chooseMove(view, aiRng.current);
+        try {
+          send({ action: { type: 'step', actions: move ? moveActions(view, move) : [] }, source: bot.name, now: Date.now() });
+        } catch (err) {
+          console.warn(`${bot.label} AI move rejected:`, err);
         }
         if (aiMode === 'interactive') {
           setIsUserTurn(true); // Switch back to user turn in interactive mode
@@ -143,7 +232,13 @@ export default function MinesweeperPage() {
       }, 1000); // AI makes a move every second
       return () => clearInterval(aiMoveInterval);
     }
-  }, [aiMode, isUserTurn, board, started, gameOver]);
+  }, [aiMode, aiDifficulty, isUserTurn, game]);
+
+  // Keep the current recording in storage so it shows up in the replay viewer
+  // (replays without moves are skipped by saveReplay).
+  useEffect(() => {
+    saveReplay(replay);
+  }, [replay]);
 
   // [Original] Timer: run while the game has started and is not over.
   useEffect(() => {
@@ -154,95 +249,159 @@ export default function MinesweeperPage() {
     return () => { if (t) clearInterval(t); };
   }, [started, gameOver]);
 
-  // [Original] Reveal all mines (used on loss, and post-win to show final state).
-  function revealMines(): void {
-    setBoard(b => b.map(row => row.map(c0 => c0.isMine ? { ...c0, revealed: true } : c0)));
-  }
-
   // Hint feature handler
   function useHint() {
     // If game is over or hints are exhausted
     if (gameOver || hintsUsed >= 3 || !hintsAvailable) {
       return; // Do not use hint
     }
-    const ctx = {
-      board,
-      gridSize: GRID_SIZE,
-      mines,
-      started,
-      setBoard,
-      setStarted,
-      setFlagsLeft,
-      setGameOver,
-      checkWin: (b: Cell[][]) => checkWin(b),
-      revealMines: () => revealMines(),
-    };
-    let result = hint(ctx); // Call the hint function from AiBehavior
-    if (result === 'none') {
+    const view = playerView(game);
+    const result = hint(view, aiRng.current); // Ask the hint module for a proven move
+    if (result.move) dispatch({ type: 'step', actions: moveActions(view, result.move) }, 'hint');
+    if (result.status === 'none') {
       setHintsAvailable(false); // No more hints can be used
     } else {
       setHintsUsed(hintsUsed + 1); // Increment hints used
     }
   }
 
-  // [Original] Win condition:
-  //  - every safe cell must be revealed
-  //  - every mined cell must remain unrevealed
-  function checkWin(board: Cell[][]): boolean {
-    return board.every(rw =>
-      rw.every(cell => (cell.isMine ? !cell.revealed : cell.revealed))
-    )
+  // Send a move (from the player unless stated otherwise) through history and recording.
+  function dispatch(action: HistoryAction, source: ActionSource = 'player') {
+    send({ action, source, now: Date.now() });
   }
 
   // [Original] Reset overall game state to a clean slate.
-  function reset() {
-    setBoard(createEmptyBoard(GRID_SIZE, GRID_SIZE));
-    setStarted(false);
-    setGameOver(null);
-    setFlagsLeft(mines);
+  // A new random seed is drawn unless a specific one is requested (see playSeed()).
+  function reset(nextSeed: number = randomSeed()) {
+    aiRng.current = createRng(deriveSeed(nextSeed, AI_RNG_STREAM));
+    // The level's size and mine count are per layer; layers are stacked in the board's rows.
+    const { rows, cols, mines } = boardSize(difficulty);
+    // A custom size checked under roomier rules may not fit after switching to a larger
+    // neighborhood; cap the mines rather than ask placement for the impossible.
+    const room = maxMines(rows, cols, getTopology(topology, neighborhood, layers), { multiMine, firstClick });
+    dispatch({
+      type: 'reset',
+      config: {
+        rows: rows * layers, cols, mines: Math.min(mines, room) * layers, seed: nextSeed,
+        noGuess, multiMine, topology, neighborhood, layers, firstClick, distribution,
+      },
+    });
     setSeconds(0);
     resetHints();
     setHintsUsed(0);
   }
 
-  // [Original] Handle a left-click reveal at (r,c).
-  function revealCell(r: number, c: number) {
-    if (gameOver) return;
+  // Switch level and remember it for the next visit.
+  function chooseDifficulty(next: Difficulty) {
+    setDifficulty(next);
+    saveDifficulty(next);
+  }
 
-    // Clone to avoid mutating React state directly.
-    const newBoard = cloneBoard(board); // Clone the board not to trigger state changes
+  // Apply the typed minimum opening size (clamped) when leaving the field.
+  function commitOpeningSize() {
+    const cells = openingSize(openingInput);
+    setOpeningInput(String(cells));
+    if (firstClick.kind === 'minOpening' && firstClick.cells !== cells) setFirstClick({ kind: 'minOpening', cells });
+  }
 
-    // Check flag before first click safety logic.
-    const cell = newBoard[r][c];
-    setHintsAvailable(true); // Assume hints are available at the start of the click
-    if (cell.revealed || cell.flagged) return; // ignore invalid actions per rules
-
-    if (!started) {
-      // [Original] First-click safety:
-      //  - place mines excluding the first-click position
-      //  - compute adjacency counts once
-      placeMines(newBoard, mines, { r, c });
-      computeAdjacency(newBoard);
-      setBoard(newBoard);
-      setStarted(true);
+  // Use a pasted pattern template for the "pattern" layout (validated before it reaches the engine).
+  function loadPatternTemplate() {
+    const template = window.prompt('Paste a pattern template ("#" marks mine spots, one line per row):');
+    if (!template) return;
+    try {
+      parseTemplate(template);
+      setDistribution({ kind: 'pattern', template });
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Invalid pattern template');
     }
+  }
 
-    if (cell.isMine) {
-      // Hitting a mine ends the game immediately; reveal all mines.
-      setGameOver("lost");
-      revealMines();
-      return;
-    }
+  // Start a new game from the seed typed into the HUD.
+  function playSeed() {
+    const parsed = parseSeed(seedInput);
+    if (parsed === null) return;
+    reset(parsed);
+    setSeedInput('');
+  }
+
+  // Step back / forward through the move history.
+  function undo() {
+    dispatch({ type: 'undo', allowAfterLoss: practiceMode });
+    setIsUserTurn(true);
+  }
 
-    // [Original] Reveal region; flood-fill handles zero-adjacent expansion.
-    floodFill(newBoard, GRID_SIZE, r, c);
-    setBoard(newBoard);
+  function redo() {
+    dispatch({ type: 'redo' });
+  }
 
-    // Check if this reveal leads to a win state.
-    if (checkWin(newBoard)) {
-      setGameOver("won");
-      revealMines();
+  // Keyboard shortcuts: Ctrl+Z undo; Ctrl+Y or Ctrl+Shift+Z redo (Cmd on macOS).
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if ((e.target as HTMLElement | null)?.tagName === 'INPUT') return; // leave text fields alone
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Copy a share code for the current board (mines plus revealed/flagged/"?" state).
+  // Only a generated board has mines to share: before the first click the button is disabled.
+  async function copyBoardCode() {
+    if (!started) return;
+    const code = encodeBoard(board, game.config);
+    try {
+      await navigator.clipboard.writeText(code);
+    } catch {
+      window.prompt('Copy this board code:', code); // clipboard blocked: let the user copy by hand
     }
+  }
+
+  // Load a board from a pasted share code; the position resumes exactly as it was saved.
+  function loadBoardCode() {
+    const code = window.prompt('Paste a board code:');
+    if (!code) return;
+    try {
+      const snapshot = decodeBoard(code);
+      // A board without mines was copied before its first click; loading it would win at once.
+      if (snapshot.mines === 0) throw new Error('This board code has no mines (it was copied before the first click)');
+      dispatch({
+        type: 'load',
+        board: snapshot.board,
+        config: {
+          topology: snapshot.topology,
+          neighborhood: snapshot.neighborhood,
+          layers: snapshot.layers,
+          multiMine: snapshot.multiMine,
+        },
+      });
+      setSeconds(0);
+      resetHints();
+      setHintsUsed(0);
+      setIsUserTurn(true);
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Invalid board code');
+    }
+  }
+
+  // [Original] Handle a left-click reveal at (r,c).
+  // First-click mine placement, flood-fill, loss and win are applied by the engine.
+  function revealCell(r: number, c: number) {
+    if (gameOver) return;
+
+    setHintsAvailable(true); // Assume hints are available at the start of the click
+    const cell = board[r][c];
+    if (cell.revealed) return chordCell(r, c); // clicking a number chords (when enabled)
+    if (cell.flagged) return; // ignore invalid actions per rules
+
+    dispatch({ type: 'reveal', r, c });
 
     // If in interactive mode, switch turn to AI after user's move
     if (aiMode === 'interactive') {
@@ -250,74 +409,317 @@ export default function MinesweeperPage() {
     }
   }
 
+  // Chord at (r,c): the engine ignores it unless the number's flag count matches `adjacent`;
+  // a wrong flag makes the chord open a mine and lose.
+  function chordCell(r: number, c: number) {
+    if (gameOver || !chording) return;
+    const next = applyAction(game, { type: 'chord', r, c });
+    if (next === game) return; // unsatisfied number or nothing to open: not a move
+
+    dispatch({ type: 'chord', r, c });
+    setHintsAvailable(true);
+    if (aiMode === 'interactive') {
+      setIsUserTurn(false);
+    }
+  }
+
   // [Original] Handle right-click flag toggle at (r,c).
   function toggleFlag(e: React.MouseEvent, r: number, c: number) {
     e.preventDefault();
     if (gameOver) return;
+    if (board[r][c].revealed) return;        // cannot flag an already revealed cell
 
-    const newBoard = cloneBoard(board);
-    const cell = newBoard[r][c];
-
-    if (cell.revealed) return;               // cannot flag an already revealed cell
-
-    // Toggle flag state on the cloned board.
-    cell.flagged = !cell.flagged;
-    setHintsAvailable(true); 
-
-    // [Original] Recompute remaining flags from truth to keep counters consistent.
-    const remaining = mines - newBoard.flat().filter(c0 => c0.flagged).length;
-    setFlagsLeft(remaining);
-    setBoard(newBoard);
-
-    // Optional fast-path win check (all safe revealed & all mines un-revealed).
-    if (checkWin(newBoard)) {
-      setGameOver("won");
-      revealMines();
-    }
+    dispatch({ type: questionMarks ? 'mark' : 'flag', r, c });
+    setHintsAvailable(true);
   }
 
   return (
     <div
       className="w-7/12 m-auto"
     >
-      {/* [Original] Controls: difficulty (mines), AI, Reset, and HUD (timer +flags). */}
+      {/* [Original] Controls: difficulty (level), AI, Reset, and HUD (timer +flags). */}
       <div className="flex gap-5 place-content-center mt-10">
-        <label className="border-2 border-white rounded-md p-2" >Mines
+        {/* Level: classic presets, or a custom size checked against the current rules. */}
+        <div className="flex items-center gap-2">
+          <label className="mr-2">Level:</label>
+          <select
+            value={difficulty.kind}
+            onChange={e => {
+              const kind = e.target.value as DifficultyKind;
+              if (kind === 'custom') setShowCustom(true);
+              else chooseDifficulty({ ...difficulty, kind });
+            }}
+            className="border-2 border-white rounded-md p-2 bg-black text-white"
+          >
+            {Object.entries(PRESETS).map(([kind, p]) => (
+              <option key={kind} value={kind}>{p.label} ({p.cols}×{p.rows}, {p.mines})</option>
+            ))}
+            <option value="custom">Custom…</option>
+          </select>
+          {difficulty.kind === 'custom' && (
+            <button
+              onClick={() => setShowCustom(true)}
+              className='cursor-pointer border-2 border-white rounded-md p-2 text-white hover:opacity-70'
+            >
+              Edit
+            </button>
+          )}
+        </div>
+
+        {/* No-guess generation: boards are solvable from the first click without guessing. */}
+        <label
+          className="flex items-center gap-2 border-2 border-white rounded-md p-2"
+          title={multiMine
+            ? 'Not available with multi-mine cells'
+            : noGuessFallback
+              ? 'No guess-free layout found in time; this board is a standard one'
+              : 'Only generate boards that can be cleared without guessing'}
+        >
           <input
-            type="number"
-            value={inputValue}
-            min={10}
-            max={20}
-            // Call setMines immediately when the user types a valid integer in range
+            type="checkbox"
+            checked={noGuess && !multiMine}
+            disabled={multiMine}
+            onChange={e => setNoGuess(e.target.checked)}
+          />
+          No guessing{noGuessFallback && ' (fallback)'}
+        </label>
+
+        {/* First-click safety: how much of the board around the first click is kept mine-free. */}
+        <div className="flex items-center gap-2">
+          <label className="mr-2">First click:</label>
+          <select
+            value={firstClick.kind}
             onChange={e => {
-              const v = e.target.value;
-              setInputValue(v);
-              const n = Number(v);
-              // Commit immediately only for integer values inside allowed range
-              if (!Number.isNaN(n) && Number.isInteger(n) && n >= 10 && n <= 20) {
-                setMines(n);
-              }
+              const kind = e.target.value as FirstClickKind;
+              setFirstClick(kind === 'minOpening' ? { kind, cells: openingSize(openingInput) } : { kind });
             }}
-            onBlur={() => { // Mine count will only change when leaving the field (fallback/clamp)
-              const n = Number(inputValue);
-              if (!isNaN(n)) {
-                setMines(Math.max(10, Math.min(20, n))); // Clamp when user leaves field
-                setInputValue(Math.max(10, Math.min(20, n)).toString());
-              } else {
-                setInputValue(mines.toString()); // Reset if invalid
-              }
+            className="border-2 border-white rounded-md p-2 bg-black text-white"
+          >
+            {Object.entries(FIRST_CLICK_LABELS).map(([kind, label]) => (
+              <option key={kind} value={kind}>{label}</option>
+            ))}
+          </select>
+          {firstClick.kind === 'minOpening' && (
+            <input
+              type="number"
+              value={openingInput}
+              min={2}
+              max={MAX_OPENING_CELLS}
+              onChange={e => setOpeningInput(e.target.value)}
+              onBlur={commitOpeningSize}
+              onKeyDown={e => { if (e.key === 'Enter') commitOpeningSize(); }}
+              className='border-2 border-white rounded-md px-2 w-20'
+              title="Fewest cells the first click opens"
+            />
+          )}
+        </div>
+
+        {/* Mine layout strategy; patterns pick a built-in template or load a pasted one. */}
+        <div className="flex items-center gap-2">
+          <label className="mr-2">Layout:</label>
+          <select
+            value={distribution.kind}
+            onChange={e => {
+              const kind = e.target.value as DistributionKind;
+              setDistribution(kind === 'pattern' ? { kind, template: Object.values(PATTERN_TEMPLATES)[0] } : { kind });
             }}
-            className='px-2 mx-2'
+            title={DISTRIBUTIONS[distribution.kind].description}
+            className="border-2 border-white rounded-md p-2 bg-black text-white"
+          >
+            {Object.values(DISTRIBUTIONS).map(d => (
+              <option key={d.kind} value={d.kind} title={d.description}>{d.label}</option>
+            ))}
+          </select>
+          {distribution.kind === 'pattern' && (
+            <>
+              <select
+                value={Object.keys(PATTERN_TEMPLATES).find(name => PATTERN_TEMPLATES[name] === distribution.template) ?? ''}
+                onChange={e => setDistribution({ kind: 'pattern', template: PATTERN_TEMPLATES[e.target.value] })}
+                className="border-2 border-white rounded-md p-2 bg-black text-white"
+              >
+                {Object.keys(PATTERN_TEMPLATES).map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+                <option value="" disabled>Loaded template</option>
+              </select>
+              <button
+                onClick={loadPatternTemplate}
+                className='cursor-pointer border-2 border-white rounded-md p-2 text-white hover:opacity-70'
+              >
+                Load template
+              </button>
+            </>
+          )}
+        </div>
+
+        {/* Multi-mine variant: numbers count mines, not mined cells; flags carry a count. */}
+        <label
+          className="flex items-center gap-2 border-2 border-white rounded-md p-2"
+          title="Cells can hold 1–3 mines; right-click repeatedly to set how many flags a cell gets"
+        >
+          <input
+            type="checkbox"
+            checked={multiMine}
+            onChange={e => setMultiMine(e.target.checked)}
+          />
+          Multi-mine
+        </label>
+
+        {/* Chording toggle: click / middle-click / left+right on a satisfied number. */}
+        <label
+          className="flex items-center gap-2 border-2 border-white rounded-md p-2"
+          title="Click, middle-click or left+right-click a number whose flags match it to open its other neighbors"
+        >
+          <input
+            type="checkbox"
+            checked={chording}
+            onChange={e => setChording(e.target.checked)}
+          />
+          Chording
+        </label>
+
+        {/* Heatmap overlay: every covered cell shaded by its chance of being a mine. */}
+        <label
+          className="flex items-center gap-2 border-2 border-white rounded-md p-2"
+          title="Shade covered cells from green (safe) to red (mine) by what the numbers and mine count imply; hover a cell for its percentage"
+        >
+          <input
+            type="checkbox"
+            checked={showHeatmap}
+            onChange={e => setShowHeatmap(e.target.checked)}
+          />
+          Heatmap{heatmap && !heatmap.exact && ' (estimated)'}
+        </label>
+
+        {/* "?" marks: a third right-click state that neither counts as a flag nor blocks reveal. */}
+        <label
+          className="flex items-center gap-2 border-2 border-white rounded-md p-2"
+          title='Right-click cycles flag → "?" → none'
+        >
+          <input
+            type="checkbox"
+            checked={questionMarks}
+            onChange={e => setQuestionMarks(e.target.checked)}
           />
+          ? marks
         </label>
 
         <button
-          onClick={reset}
+          onClick={() => reset()}
           className='cursor-pointer border-2 border-white rounded-md p-2 text-white hover:opacity-70'
         >
           Reset
         </button>
 
+        {/* Undo / redo (Ctrl+Z / Ctrl+Y); practice mode also allows undoing a loss. */}
+        <div className="flex items-center gap-2 border-2 border-white rounded-md p-2">
+          <button
+            onClick={undo}
+            disabled={!canUndo(history, practiceMode)}
+            className='cursor-pointer hover:opacity-70 disabled:opacity-40 disabled:cursor-not-allowed'
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo(history)}
+            className='cursor-pointer hover:opacity-70 disabled:opacity-40 disabled:cursor-not-allowed'
+            title="Redo (Ctrl+Y)"
+          >
+            Redo
+          </button>
+          <label className="flex items-center gap-1" title="Allow undo after a loss; such games are not recorded">
+            <input
+              type="checkbox"
+              checked={practiceMode}
+              onChange={e => setPracticeMode(e.target.checked)}
+            />
+            Practice
+          </label>
+        </div>
+
+        {/* Board codes: share an exact position and load one back. */}
+        <button
+          onClick={copyBoardCode}
+          disabled={!started}
+          className={`border-2 rounded-md p-2 ${
+            started
+              ? 'cursor-pointer border-white text-white hover:opacity-70'
+              : 'opacity-50 cursor-not-allowed border-gray-400 text-gray-300'
+          }`}
+          title={started
+            ? "Copy a code for this board, including what is revealed and flagged"
+            : "Mines are placed on the first click; copy the code after it"}
+        >
+          Copy board code
+        </button>
+        <button
+          onClick={loadBoardCode}
+          className='cursor-pointer border-2 border-white rounded-md p-2 text-white hover:opacity-70'
+        >
+          Load board code
+        </button>
+
+        {/* Replay viewer: step through or play back recorded games. */}
+        <Link
+          href="/replay"
+          className='border-2 border-white rounded-md p-2 text-white hover:opacity-70'
+        >
+          Replays
+        </Link>
+
+        {/* Endless mode: an infinite, chunk-generated board on its own page. */}
+        <Link
+          href="/endless"
+          className='border-2 border-white rounded-md p-2 text-white hover:opacity-70'
+        >
+          Endless
+        </Link>
+
+        {/* Board topology selection */}
+        <div className="flex items-center">
+          <label className="mr-2">Board:</label>
+          <select
+            value={topology}
+            onChange={e => setTopology(e.target.value as TopologyKind)}
+            className="border-2 border-white rounded-md p-2 bg-black text-white"
+          >
+            {Object.values(TOPOLOGIES).map(t => (
+              <option key={t.kind} value={t.kind}>{t.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Neighborhood selection (hex boards always use their 6 touching cells) */}
+        <div className="flex items-center">
+          <label className="mr-2">Neighbors:</label>
+          <select
+            value={neighborhood}
+            onChange={e => setNeighborhood(e.target.value as NeighborhoodKind)}
+            disabled={topology === 'hex'}
+            className="border-2 border-white rounded-md p-2 bg-black text-white disabled:opacity-50"
+          >
+            {Object.values(NEIGHBORHOODS).map(n => (
+              <option key={n.kind} value={n.kind}>{n.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Layer count: stacking the board makes a 3D board (up to 26 neighbors with 3×3) */}
+        <div className="flex items-center">
+          <label className="mr-2">Layers:</label>
+          <select
+            value={layers}
+            onChange={e => setLayers(Number(e.target.value))}
+            className="border-2 border-white rounded-md p-2 bg-black text-white"
+          >
+            {Array.from({ length: MAX_LAYERS }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n === 1 ? 'Flat' : `${n} layers`}</option>
+            ))}
+          </select>
+        </div>
+
         {/* Interactive vs Automatic Mode Toggle */}
         <div className="flex items-center">
           <label className="mr-2">Mode:</label>
@@ -337,12 +739,13 @@ export default function MinesweeperPage() {
           <label className="mr-2">AI Difficulty:</label>
           <select
             value={aiDifficulty}
-            onChange={e => setAiDifficulty(e.target.value as 'easy' | 'medium' | 'hard')}
+            onChange={e => setAiDifficulty(e.target.value)}
+            title={aiStrategy(aiDifficulty).description}
             className="border-2 border-white rounded-md p-2 bg-black text-white"
           >
-            <option value="easy">Easy</option>
-            <option value="medium">Medium</option>
-            <option value="hard">Hard</option>
+            {AI_STRATEGIES.map(s => (
+              <option key={s.name} value={s.name} title={s.description}>{s.label}</option>
+            ))}
           </select>
         </div>
 
@@ -359,10 +762,10 @@ export default function MinesweeperPage() {
             }`}
             title={
               !hintsAvailable
-              ? "No safe moves available"
+              ? "No certain move available"
               : hintsUsed >= 3
               ? 'No hints left' 
-              : 'Reveal a safe cell'}
+              : 'Show a certain move (open a proven-safe cell or flag a proven mine)'}
           >
             Use Hint
           </button>
@@ -381,19 +784,69 @@ export default function MinesweeperPage() {
             <FlagIcon color="var(--color-sky-700)"/>
             {flagsLeft}
           </span>
+          <span className="text-sm opacity-80" title="Level: width × height / mines">
+            {describeBoard(game.config)}
+          </span>
+          <span className="text-sm opacity-80" title="Seed for this game">
+            Seed {seed}
+          </span>
+          {history.practice && (
+            <span
+              className="text-sm font-bold text-amber-500"
+              title="Undo was used after a loss; this game does not count toward records"
+            >
+              PRACTICE
+            </span>
+          )}
         </div>
+
+        {/* Play a specific seed (numbers are used directly, other text is hashed). */}
+        <form
+          className="flex items-center gap-2 border-2 border-white rounded-md p-2"
+          onSubmit={e => { e.preventDefault(); playSeed(); }}
+        >
+          <input
+            type="text"
+            value={seedInput}
+            placeholder="play seed…"
+            onChange={e => setSeedInput(e.target.value)}
+            className='px-2 w-28'
+          />
+          <button type="submit" className='cursor-pointer hover:opacity-70'>
+            Play
+          </button>
+        </form>
       </div>
 
       {/* [Original] Grid and end-of-game modal. */}
       <div className="mt-10 relative">
-        <RenderGrid
+        <RenderLayers
           board={board}
-          gridSize={GRID_SIZE}
+          store={game.store}
+          rows={game.config.rows}
+          cols={game.config.cols}
+          layers={game.config.layers ?? 1}
+          heat={heatmap?.probability}
           reveal={revealCell}
           flag={toggleFlag}
+          chord={chordCell}
+          topology={game.config.topology}
         />
-        {gameOver && <RenderModal state={gameOver} close={() => reset()}/>}
+        {gameOver && <RenderModal state={gameOver} stats={stats} close={() => reset()}/>}
       </div>
+
+      {showCustom && (
+        <CustomGameDialog
+          initial={difficulty.custom}
+          topology={getTopology(topology, neighborhood, layers)}
+          rules={{ multiMine, firstClick }}
+          confirm={custom => {
+            chooseDifficulty({ kind: 'custom', custom });
+            setShowCustom(false);
+          }}
+          cancel={() => setShowCustom(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,196 @@
+/**
+ * File: src/app/replay/page.tsx
+ * Module: User Interface – Replay Viewer (Client Component)
+ * Brief: Lists games recorded by the main page and plays one back on <RenderLayers/>,
+ *        with play/pause, single-step, scrubbing and playback speed controls.
+ *
+ * Inputs:
+ *   - Replays saved in localStorage by the main page (see `@/_util/replay`).
+ *   - User interactions: replay selection, transport controls, scrub slider, speed select.
+ *
+ * Outputs:
+ *   - UI: replay metadata (seed, mine layout, first click, result), the board at the selected move,
+ *     and a description of that move and who made it (player, AI difficulty, or hint).
+ *
+ * Side Effects:
+ *   - Reads localStorage on mount; runs a timer while playing.
+ *
+ * External Sources / Attribution:
+ *   - None;
+ *
+ * Creation Date: 2025-10-13
+ * Course: EECS 581 (Software Engineering II), Prof. Hossein Saiedian – Fall 2025
+ */
+
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+
+import RenderLayers from "../RenderLayers";
+import { DISTRIBUTIONS } from '@/_util/distribution';
+import type { HistoryAction } from '@/_util/history';
+import type { Replay } from '@/_util/replay';
+import { loadReplays, replayStates } from '@/_util/replay';
+
+// Long pauses in the original game are shortened so playback keeps moving.
+const MAX_GAP_MS = 2000;
+const MIN_GAP_MS = 50;
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+// Human-readable summary of one recorded move.
+function describe(action: HistoryAction): string {
+  switch (action.type) {
+    case 'step':
+      return action.actions.length === 0 ? 'no move' : action.actions.map(describe).join(', ');
+    case 'undo':
+    case 'redo':
+    case 'reset':
+      return action.type;
+    case 'load':
+      return 'loaded a board code';
+    default:
+      return `${action.type} (${action.r + 1}, ${action.c + 1})`;
+  }
+}
+
+export default function ReplayPage() {
+  const [replays, setReplays] = useState<Replay[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);       // 0 = before the first move
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Saved replays only exist in the browser, so read them after mount.
+  useEffect(() => {
+    const saved = loadReplays();
+    setReplays(saved);
+    setSelectedId(saved[0]?.id ?? null);
+  }, []);
+
+  const replay = replays.find(r => r.id === selectedId) ?? null;
+  const frames = useMemo(() => (replay ? replayStates(replay) : []), [replay]);
+  const last = Math.max(0, frames.length - 1);
+  const frame = frames[Math.min(index, last)];
+
+  // Switching replays rewinds to the start.
+  useEffect(() => {
+    setIndex(0);
+    setPlaying(false);
+  }, [selectedId]);
+
+  // Playback: wait the recorded gap between moves (scaled by speed) before advancing.
+  useEffect(() => {
+    if (!playing || !replay) return;
+    if (index >= last) {
+      setPlaying(false);
+      return;
+    }
+    const events = replay.events;
+    const gap = events[index].t - (index > 0 ? events[index - 1].t : events[0].t);
+    const delay = Math.min(MAX_GAP_MS, Math.max(MIN_GAP_MS, gap)) / speed;
+    const t = window.setTimeout(() => setIndex(i => i + 1), delay);
+    return () => clearTimeout(t);
+  }, [playing, index, last, replay, speed]);
+
+  const event = replay && index > 0 ? replay.events[index - 1] : null;
+
+  return (
+    <div className="w-7/12 m-auto">
+      <div className="flex gap-5 place-content-center items-center mt-10 flex-wrap">
+        <Link href="/" className='border-2 border-white rounded-md p-2 text-white hover:opacity-70'>
+          Back to game
+        </Link>
+
+        {/* Replay selection (newest first). */}
+        <select
+          value={selectedId ?? ''}
+          onChange={e => setSelectedId(e.target.value)}
+          className="border-2 border-white rounded-md p-2 bg-black text-white"
+        >
+          {replays.length === 0 && <option value="">No recorded games yet</option>}
+          {replays.map(r => (
+            <option key={r.id} value={r.id}>
+              {new Date(r.startedAt).toLocaleString()} · seed {r.config.seed} · {r.result ?? 'unfinished'} · {r.events.length} moves
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {replay && frame && (
+        <>
+          {/* Transport controls: step, play/pause, scrub, speed. */}
+          <div className="flex gap-3 place-content-center items-center mt-5 flex-wrap">
+            <button
+              onClick={() => { setPlaying(false); setIndex(i => Math.max(0, i - 1)); }}
+              className='cursor-pointer border-2 border-white rounded-md px-3 py-1 hover:opacity-70'
+            >
+              ◀ Step
+            </button>
+            <button
+              onClick={() => {
+                if (index >= last) setIndex(0); // replay from the start once finished
+                setPlaying(p => !p);
+              }}
+              className='cursor-pointer border-2 border-white rounded-md px-3 py-1 hover:opacity-70'
+            >
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <button
+              onClick={() => { setPlaying(false); setIndex(i => Math.min(last, i + 1)); }}
+              className='cursor-pointer border-2 border-white rounded-md px-3 py-1 hover:opacity-70'
+            >
+              Step ▶
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={last}
+              value={index}
+              onChange={e => { setPlaying(false); setIndex(Number(e.target.value)); }}
+              className="w-64"
+            />
+            <span className="text-sm">{index} / {last}</span>
+            <select
+              value={speed}
+              onChange={e => setSpeed(Number(e.target.value))}
+              className="border-2 border-white rounded-md p-1 bg-black text-white"
+            >
+              {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+            </select>
+          </div>
+
+          {/* Replay metadata and the move shown. */}
+          <div className="flex gap-5 place-content-center mt-5 text-sm opacity-80 flex-wrap">
+            <span>Board {replay.config.rows}×{replay.config.cols}, {replay.config.mines} mines ({replay.config.topology})</span>
+            <span>Seed {replay.config.seed}</span>
+            {/* Recordings made before layouts were selectable have no distribution: uniform. */}
+            <span>Layout: {DISTRIBUTIONS[replay.config.distribution?.kind ?? 'uniform'].label}</span>
+            <span>
+              First click {replay.firstClick ? `(${replay.firstClick.r + 1}, ${replay.firstClick.c + 1})` : '—'}
+            </span>
+            <span>
+              {event
+                ? `${(event.t / 1000).toFixed(2)}s · ${event.source}: ${describe(event.action)}`
+                : 'Start of game'}
+            </span>
+            {frame.gameOver && <span className="font-bold">Game {frame.gameOver}</span>}
+          </div>
+
+          <div className="mt-10">
+            <RenderLayers
+              rows={frame.config.rows}
+              cols={frame.config.cols}
+              layers={frame.config.layers ?? 1}
+              board={frame.board}
+              store={frame.store}
+              reveal={() => {}}
+              flag={e => e.preventDefault()}
+              topology={frame.config.topology}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}